@@ -0,0 +1,65 @@
+/**
+ * Timed access sessions.
+ *
+ * After an intention is completed, its scope can stay open for a chosen
+ * number of minutes. When the session ends, the background worker sends the
+ * scope's tabs back to the intention page.
+ */
+
+import type { IntentionScopeId } from './intention';
+import { minutesToMs, type Timestamp } from './time';
+
+// Session lengths offered on the intention page and in settings
+export const SESSION_LENGTH_OPTIONS_MINUTES = [5, 10, 15, 30, 60];
+
+/**
+ * Sent by the intention page right before it continues to the target.
+ * A null length means the scope stays open until the user leaves it.
+ */
+export interface IntentionCompletedMessage {
+  type: 'intention:completed';
+  intentionScopeId: IntentionScopeId;
+  sessionMinutes: number | null;
+}
+
+export function isIntentionCompletedMessage(
+  message: unknown
+): message is IntentionCompletedMessage {
+  const msg = message as Partial<IntentionCompletedMessage> | null;
+  return (
+    msg?.type === 'intention:completed' &&
+    typeof msg.intentionScopeId === 'string' &&
+    (msg.sessionMinutes === null || typeof msg.sessionMinutes === 'number')
+  );
+}
+
+export function accessSessionEndsAt(
+  startedAt: Timestamp,
+  sessionMinutes: number
+): Timestamp {
+  return (startedAt + minutesToMs(sessionMinutes)) as Timestamp;
+}
+
+export function sessionLengthLabel(sessionMinutes: number | null): string {
+  return sessionMinutes === null
+    ? 'Until I leave'
+    : `${sessionMinutes} minutes`;
+}
+
+// One alarm per open scope; alarms outlive the suspended worker, timers do not
+const SESSION_ALARM_PREFIX = 'intender-session-';
+
+export function accessSessionAlarmName(scopeId: IntentionScopeId): string {
+  return SESSION_ALARM_PREFIX + scopeId;
+}
+
+/**
+ * The scope whose session an alarm ends, or null for other alarms.
+ */
+export function accessSessionAlarmScope(
+  alarmName: string
+): IntentionScopeId | null {
+  return alarmName.startsWith(SESSION_ALARM_PREFIX)
+    ? (alarmName.slice(SESSION_ALARM_PREFIX.length) as IntentionScopeId)
+    : null;
+}
@@ -0,0 +1,184 @@
+/**
+ * Daily visit and time budgets per intention.
+ *
+ * Usage is counted per IntentionScopeId for the current budget day, which
+ * starts at a configurable hour (so a late night still counts as the day
+ * before). Visits are counted when the intention is completed, time while a
+ * tab of the scope is the active tab of the focused window.
+ */
+
+import type { IntentionScopeId, RawIntention } from './intention';
+import { minutesToMs, type Timestamp } from './time';
+
+export const DEFAULT_BUDGET_RESET_HOUR = 4;
+
+// Fires when the active scope's time budget runs out
+export const TIME_BUDGET_ALARM_NAME = 'intender-time-budget';
+
+/**
+ * Limits of one intention. null means no limit.
+ */
+export interface DailyBudget {
+  visits: number | null;
+  minutes: number | null;
+}
+
+export interface ScopeUsage {
+  visits: number;
+  activeMs: number;
+}
+
+export interface BudgetUsage {
+  day: string; // budget day the usage belongs to, e.g. "2025-03-14"
+  byScope: Record<IntentionScopeId, ScopeUsage>;
+}
+
+export type BudgetLimit = 'visits' | 'minutes';
+
+export type BudgetStatus =
+  | { kind: 'unlimited' }
+  | { kind: 'within'; visitsLeft: number | null; minutesLeft: number | null }
+  | { kind: 'exhausted'; limit: BudgetLimit };
+
+export const NO_BUDGET: DailyBudget = { visits: null, minutes: null };
+
+const EMPTY_SCOPE_USAGE: ScopeUsage = { visits: 0, activeMs: 0 };
+
+export function dailyBudgetOf(raw: RawIntention): DailyBudget {
+  return {
+    visits: raw.dailyVisitLimit ?? null,
+    minutes: raw.dailyMinutesLimit ?? null,
+  };
+}
+
+/**
+ * Returns the budget day a moment belongs to, in local time.
+ * Before the reset hour, it is still the previous day.
+ */
+export function budgetDay(now: Date, resetHour: number): string {
+  const shifted = new Date(now);
+  shifted.setHours(shifted.getHours() - resetHour);
+  const month = String(shifted.getMonth() + 1).padStart(2, '0');
+  const date = String(shifted.getDate()).padStart(2, '0');
+  return `${shifted.getFullYear()}-${month}-${date}`;
+}
+
+export function emptyBudgetUsage(day: string): BudgetUsage {
+  return { day, byScope: {} };
+}
+
+/**
+ * Returns the usage for the given budget day, starting over on a new day.
+ */
+export function usageForDay(usage: BudgetUsage, day: string): BudgetUsage {
+  return usage.day === day ? usage : emptyBudgetUsage(day);
+}
+
+export function scopeUsage(
+  usage: BudgetUsage,
+  scopeId: IntentionScopeId
+): ScopeUsage {
+  return usage.byScope[scopeId] ?? EMPTY_SCOPE_USAGE;
+}
+
+export function addScopeUsage(
+  usage: BudgetUsage,
+  scopeId: IntentionScopeId,
+  added: ScopeUsage
+): BudgetUsage {
+  const current = scopeUsage(usage, scopeId);
+  return {
+    ...usage,
+    byScope: {
+      ...usage.byScope,
+      [scopeId]: {
+        visits: current.visits + added.visits,
+        activeMs: current.activeMs + added.activeMs,
+      },
+    },
+  };
+}
+
+export function hasBudget(budget: DailyBudget): boolean {
+  return budget.visits !== null || budget.minutes !== null;
+}
+
+export function budgetStatus(
+  budget: DailyBudget,
+  usage: ScopeUsage
+): BudgetStatus {
+  if (!hasBudget(budget)) return { kind: 'unlimited' };
+
+  if (budget.visits !== null && usage.visits >= budget.visits) {
+    return { kind: 'exhausted', limit: 'visits' };
+  }
+  if (
+    budget.minutes !== null &&
+    usage.activeMs >= minutesToMs(budget.minutes)
+  ) {
+    return { kind: 'exhausted', limit: 'minutes' };
+  }
+  return {
+    kind: 'within',
+    visitsLeft: budget.visits === null ? null : budget.visits - usage.visits,
+    minutesLeft:
+      budget.minutes === null
+        ? null
+        : Math.ceil((minutesToMs(budget.minutes) - usage.activeMs) / 60_000),
+  };
+}
+
+/**
+ * Whether one limit is used up, even when budgetStatus reports the other.
+ */
+export function isLimitReached(
+  budget: DailyBudget,
+  usage: ScopeUsage,
+  limit: BudgetLimit
+): boolean {
+  return limit === 'visits'
+    ? budget.visits !== null && usage.visits >= budget.visits
+    : budget.minutes !== null && usage.activeMs >= minutesToMs(budget.minutes);
+}
+
+/**
+ * Milliseconds of active time left before the time budget runs out,
+ * or null without a time budget.
+ */
+export function msUntilTimeBudgetEnds(
+  budget: DailyBudget,
+  usage: ScopeUsage
+): number | null {
+  if (budget.minutes === null) return null;
+  return Math.max(0, minutesToMs(budget.minutes) - usage.activeMs);
+}
+
+/**
+ * Describes the usage against the budget, e.g. "2 of 3 visits · 20 of 45 min".
+ */
+export function describeUsage(budget: DailyBudget, usage: ScopeUsage): string {
+  const parts: string[] = [];
+  if (budget.visits !== null) {
+    parts.push(`${usage.visits} of ${budget.visits} visits`);
+  }
+  if (budget.minutes !== null) {
+    const usedMinutes = Math.min(
+      budget.minutes,
+      Math.floor(usage.activeMs / 60_000)
+    );
+    parts.push(`${usedMinutes} of ${budget.minutes} min`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * The next moment the budget day starts over, for display.
+ */
+export function nextBudgetReset(now: Date, resetHour: number): Timestamp {
+  const reset = new Date(now);
+  reset.setHours(resetHour, 0, 0, 0);
+  if (reset.getTime() <= now.getTime()) {
+    reset.setDate(reset.getDate() + 1);
+  }
+  return reset.getTime() as Timestamp;
+}
@@ -0,0 +1,123 @@
+/**
+ * Escalating friction for repeated visits.
+ *
+ * Completed intentions are remembered per IntentionScopeId for a while. Once a
+ * scope was completed often enough within the rolling window, its intention
+ * page gets harder with every further visit: a countdown before the input
+ * unlocks, a longer phrase, or exact matching instead of tolerating typos.
+ */
+
+import type { IntentionScopeId } from './intention';
+import { minutesToMs, type Timestamp } from './time';
+
+export type EscalationStep = 'countdown' | 'longer-phrase' | 'strict-matching';
+
+export interface EscalationPolicy {
+  afterCompletions: number | null; // completions within the window before it gets harder, null for never
+  windowMinutes: number;
+  steps: EscalationStep[];
+  countdownSeconds: number; // added for every visit past afterCompletions
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  afterCompletions: null,
+  windowMinutes: 60,
+  steps: ['countdown', 'strict-matching'],
+  countdownSeconds: 10,
+};
+
+// Choices offered in settings
+export const ESCALATION_AFTER_OPTIONS = [2, 3, 4, 5, 10];
+export const ESCALATION_WINDOW_OPTIONS_MINUTES = [15, 30, 60, 120, 240, 1440];
+
+export const MAX_COUNTDOWN_SECONDS = 120;
+
+// Completion times per scope, oldest first
+export type RecentCompletions = Record<IntentionScopeId, Timestamp[]>;
+
+export interface Escalation {
+  level: number; // 0 while the page is as easy as usual
+  countdownSeconds: number;
+  longerPhrase: boolean;
+  strictMatching: boolean;
+}
+
+export const NO_ESCALATION: Escalation = {
+  level: 0,
+  countdownSeconds: 0,
+  longerPhrase: false,
+  strictMatching: false,
+};
+
+/**
+ * Adds a completion and forgets those older than the longest window offered,
+ * so changing the window later still finds them.
+ */
+export function addCompletion(
+  completions: RecentCompletions,
+  scopeId: IntentionScopeId,
+  now: Date
+): RecentCompletions {
+  const oldest =
+    now.getTime() - minutesToMs(Math.max(...ESCALATION_WINDOW_OPTIONS_MINUTES));
+  const kept = Object.entries(completions)
+    .map(([id, times]) => [id, times.filter(time => time > oldest)] as const)
+    .filter(([, times]) => times.length > 0);
+  return {
+    ...Object.fromEntries(kept),
+    [scopeId]: [
+      ...(completions[scopeId] ?? []).filter(time => time > oldest),
+      now.getTime() as Timestamp,
+    ],
+  } as RecentCompletions;
+}
+
+export function recentCompletionCount(
+  completions: RecentCompletions,
+  scopeId: IntentionScopeId,
+  windowMinutes: number,
+  now: Date
+): number {
+  const since = now.getTime() - minutesToMs(windowMinutes);
+  return (completions[scopeId] ?? []).filter(time => time > since).length;
+}
+
+/**
+ * How much harder the next visit gets after the given number of recent
+ * completions. With afterCompletions 4, the fifth visit is the first harder one.
+ */
+export function escalationFor(
+  policy: EscalationPolicy,
+  recentCount: number
+): Escalation {
+  if (policy.afterCompletions === null) return NO_ESCALATION;
+  const level = recentCount - policy.afterCompletions + 1;
+  if (level <= 0) return NO_ESCALATION;
+  return {
+    level,
+    countdownSeconds: policy.steps.includes('countdown')
+      ? Math.min(level * policy.countdownSeconds, MAX_COUNTDOWN_SECONDS)
+      : 0,
+    longerPhrase: policy.steps.includes('longer-phrase'),
+    strictMatching: policy.steps.includes('strict-matching'),
+  };
+}
+
+export function escalationWindowLabel(windowMinutes: number): string {
+  if (windowMinutes < 60) return `the last ${windowMinutes} minutes`;
+  if (windowMinutes === 60) return 'the last hour';
+  if (windowMinutes === 1440) return 'the last day';
+  return `the last ${windowMinutes / 60} hours`;
+}
+
+/**
+ * The phrase to type once it should be longer, e.g.
+ * "I want to read the news, even though this is visit 5 within the last hour".
+ */
+export function escalatedPhrase(
+  phrase: string,
+  recentCount: number,
+  windowMinutes: number
+): string {
+  return `${phrase}, even though this is visit ${recentCount + 1} within ${escalationWindowLabel(windowMinutes)}`;
+}
@@ -37,3 +37,121 @@ export function fuzzyPartialMatch(
   const distance = damerauLevenshtein(input, prefix);
   return distance <= maxDistance;
 }
+
+/**
+ * How many edits a phrase tolerates: scaled with its length, or a fixed number
+ */
+export type FuzzyTolerance =
+  | { kind: 'scaled' }
+  | { kind: 'fixed'; maxDistance: number };
+
+// Typos forgiven before tolerance could be chosen; scaling is opt-in
+export const DEFAULT_MAX_DISTANCE = 2;
+
+export const DEFAULT_FUZZY_TOLERANCE: FuzzyTolerance = {
+  kind: 'fixed',
+  maxDistance: DEFAULT_MAX_DISTANCE,
+};
+
+// With no edits allowed, only the exact phrase matches
+export const EXACT_TOLERANCE: FuzzyTolerance = {
+  kind: 'fixed',
+  maxDistance: 0,
+};
+
+// A scaled tolerance allows one edit per this many characters, and at least one
+export const CHARACTERS_PER_EDIT = 12;
+
+export interface PhraseMatchOptions {
+  tolerance: FuzzyTolerance;
+  caseInsensitive: boolean;
+  normalizeText: boolean; // Unicode composition, quotes, dashes and whitespace
+}
+
+// Typographic variants folded into what a keyboard types directly
+const TYPOGRAPHIC_FOLDS: [RegExp, string][] = [
+  [/[\u2018\u2019\u201A\u201B\u2032]/g, "'"], // ‘ ’ ‚ ‛ ′
+  [/[\u201C-\u201F\u2033\u00AB\u00BB]/g, '"'], // “ ” „ ‟ ″ « »
+  [/[\u2010-\u2015\u2212]/g, '-'], // hyphens, dashes and minus
+];
+
+/**
+ * The maximum edit distance for the expected phrase
+ * @param tolerance - Scaled with the phrase length or fixed
+ * @param expected - The phrase to type, after normalization
+ * @returns the number of edits still accepted as a match
+ */
+export function maxDistanceFor(
+  tolerance: FuzzyTolerance,
+  expected: string
+): number {
+  if (tolerance.kind === 'fixed') return Math.max(0, tolerance.maxDistance);
+  return Math.max(1, Math.floor(expected.length / CHARACTERS_PER_EDIT));
+}
+
+/**
+ * Brings text into the form it is compared in
+ * @param text - The typed or expected text
+ * @param options - Which differences to ignore
+ * @returns the text with ignored differences removed
+ */
+export function normalizeForMatching(
+  text: string,
+  options: PhraseMatchOptions
+): string {
+  let result = text;
+  if (options.normalizeText) {
+    for (const [pattern, replacement] of TYPOGRAPHIC_FOLDS) {
+      result = result.replace(pattern, replacement);
+    }
+    result = result.normalize('NFKC');
+    result = result.replace(/\s+/g, ' ').trimStart();
+  }
+  if (options.caseInsensitive) {
+    result = result.toLowerCase();
+  }
+  return result;
+}
+
+/**
+ * Whether the input is the complete phrase, as far as the options tell
+ * @param input - The typed text
+ * @param expected - The phrase to type
+ * @param options - Tolerance and normalization
+ * @returns true if the input counts as the phrase
+ */
+export function matchesPhrase(
+  input: string,
+  expected: string,
+  options: PhraseMatchOptions
+): boolean {
+  const trimEnd = (text: string) =>
+    options.normalizeText ? text.trimEnd() : text;
+  const inputText = trimEnd(normalizeForMatching(input, options));
+  const expectedText = trimEnd(normalizeForMatching(expected, options));
+  return fuzzyMatch(
+    inputText,
+    expectedText,
+    maxDistanceFor(options.tolerance, expectedText)
+  );
+}
+
+/**
+ * Whether the input is on its way to the phrase, as far as the options tell
+ * @param input - The text typed so far
+ * @param expected - The phrase to type
+ * @param options - Tolerance and normalization
+ * @returns true if the input counts as the start of the phrase
+ */
+export function matchesPhrasePrefix(
+  input: string,
+  expected: string,
+  options: PhraseMatchOptions
+): boolean {
+  const expectedText = normalizeForMatching(expected, options);
+  return fuzzyPartialMatch(
+    normalizeForMatching(input, options),
+    expectedText,
+    maxDistanceFor(options.tolerance, expectedText)
+  );
+}
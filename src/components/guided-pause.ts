@@ -0,0 +1,128 @@
+/**
+ * A guided pause before the intention can be typed.
+ *
+ * The intention page keeps its input disabled for a number of breaths or
+ * seconds and counts down in step with the breathe-* keyframes. The pause is
+ * stored per IntentionScopeId when it starts, so reloading the page picks up
+ * the same countdown instead of starting over without it.
+ */
+
+import type { IntentionScopeId } from './intention';
+import type { Timestamp } from './time';
+
+export type GuidedPause =
+  | { kind: 'off' }
+  | { kind: 'breaths'; count: number }
+  | { kind: 'seconds'; seconds: number };
+
+export const NO_GUIDED_PAUSE: GuidedPause = { kind: 'off' };
+
+export const DEFAULT_GUIDED_BREATHS = 3;
+export const DEFAULT_GUIDED_SECONDS = 30;
+
+// One cycle of the breathe-* keyframes on the intention page
+export const BREATH_CYCLE_MS = 10_000;
+
+export type BreathPhase = 'in' | 'hold' | 'out' | 'rest';
+
+export interface OngoingPause {
+  startedAt: Timestamp;
+  endsAt: Timestamp;
+}
+
+export type GuidedPauses = Record<IntentionScopeId, OngoingPause>;
+
+/**
+ * The intention's own pause, or the global one when it has none.
+ */
+export function effectivePause(
+  intentionPause: GuidedPause | undefined,
+  globalPause: GuidedPause
+): GuidedPause {
+  return intentionPause ?? globalPause;
+}
+
+export function guidedPauseMs(pause: GuidedPause): number {
+  switch (pause.kind) {
+    case 'off':
+      return 0;
+    case 'breaths':
+      return Math.max(0, pause.count) * BREATH_CYCLE_MS;
+    case 'seconds':
+      return Math.max(0, pause.seconds) * 1000;
+  }
+}
+
+/**
+ * Returns the pause still running for the scope, or starts a new one.
+ * A pause that ran out without the intention being completed starts over.
+ */
+export function resumeOrStartPause(
+  pauses: GuidedPauses,
+  scopeId: IntentionScopeId,
+  durationMs: number,
+  now: Date
+): OngoingPause {
+  const ongoing = pauses[scopeId];
+  if (ongoing && now.getTime() < ongoing.endsAt) return ongoing;
+  return {
+    startedAt: now.getTime() as Timestamp,
+    endsAt: (now.getTime() + durationMs) as Timestamp,
+  };
+}
+
+export function finishPause(
+  pauses: GuidedPauses,
+  scopeId: IntentionScopeId
+): GuidedPauses {
+  const { [scopeId]: _finished, ...rest } = pauses;
+  return rest as GuidedPauses;
+}
+
+/**
+ * Where the breathe keyframes are after the given time: breathing in up to a
+ * third of the cycle, holding until half, breathing out until five sixths.
+ */
+export function breathPhase(elapsedMs: number): BreathPhase {
+  const position = (elapsedMs % BREATH_CYCLE_MS) / BREATH_CYCLE_MS;
+  if (position < 1 / 3) return 'in';
+  if (position < 1 / 2) return 'hold';
+  if (position < 5 / 6) return 'out';
+  return 'rest';
+}
+
+export function breathPhaseLabel(phase: BreathPhase): string {
+  switch (phase) {
+    case 'in':
+      return 'Breathe in';
+    case 'hold':
+      return 'Hold';
+    case 'out':
+      return 'Breathe out';
+    case 'rest':
+      return 'Rest';
+  }
+}
+
+/**
+ * What is left of a pause, counted the way it was chosen,
+ * e.g. "3 breaths left" or "12s left".
+ */
+export function describeRemaining(pause: GuidedPause, msLeft: number): string {
+  if (pause.kind === 'breaths') {
+    const breaths = Math.ceil(msLeft / BREATH_CYCLE_MS);
+    return breaths === 1 ? '1 breath left' : `${breaths} breaths left`;
+  }
+  return `${Math.ceil(msLeft / 1000)}s left`;
+}
+
+export function describeGuidedPause(pause: GuidedPause): string {
+  switch (pause.kind) {
+    case 'off':
+      return 'no pause';
+    case 'breaths':
+      return pause.count === 1 ? '1 breath' : `${pause.count} breaths`;
+    case 'seconds':
+      return `${pause.seconds} seconds`;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Internationalized domain names (IDN).
+ *
+ * Browsers navigate to the ASCII (punycode) form of a hostname, e.g.
+ * xn--bcher-kva.de for bücher.de. Scopes are stored and matched in that form;
+ * the Unicode form is only used for display.
+ */
+
+const ACE_PREFIX = 'xn--';
+
+/**
+ * Converts a hostname to its ASCII form the way the browser does,
+ * lowercased and with Unicode labels encoded as punycode.
+ * Returns null when the hostname is not valid.
+ */
+export function toAsciiHostname(hostname: string): string | null {
+  if (hostname === '') return null;
+  try {
+    return new URL(`https://${hostname}`).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Converts a hostname to its Unicode form for display.
+ * Labels that are not valid punycode are left as they are.
+ */
+export function toUnicodeHostname(hostname: string): string {
+  return hostname
+    .split('.')
+    .map(label =>
+      label.toLowerCase().startsWith(ACE_PREFIX)
+        ? (decodePunycode(label.slice(ACE_PREFIX.length)) ?? label)
+        : label
+    )
+    .join('.');
+}
+
+/**
+ * Shows the host of a URL string or pattern in Unicode form, leaving the
+ * rest as typed, e.g. "xn--bcher-kva.de/a" becomes "bücher.de/a".
+ */
+export function toUnicodeUrl(input: string): string {
+  const match = input.match(/^([a-zA-Z][a-zA-Z\d+\-.]*:\/\/)?([^/?#]*)(.*)$/s);
+  if (!match) return input;
+  const [, protocol = '', host, rest] = match;
+  return protocol + toUnicodeHostname(host) + rest;
+}
+
+// Bootstring parameters for punycode (RFC 3492, section 5)
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 128;
+const MAX_CODE_POINT = 0x10ffff;
+
+function adaptBias(delta: number, numPoints: number, firstTime: boolean) {
+  let scaled = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+  scaled += Math.floor(scaled / numPoints);
+  let k = 0;
+  while (scaled > ((BASE - T_MIN) * T_MAX) >> 1) {
+    scaled = Math.floor(scaled / (BASE - T_MIN));
+    k += BASE;
+  }
+  return k + Math.floor(((BASE - T_MIN + 1) * scaled) / (scaled + SKEW));
+}
+
+function digitValue(charCode: number): number {
+  if (charCode >= 0x30 && charCode <= 0x39) return charCode - 0x30 + 26; // 0-9
+  if (charCode >= 0x41 && charCode <= 0x5a) return charCode - 0x41; // A-Z
+  if (charCode >= 0x61 && charCode <= 0x7a) return charCode - 0x61; // a-z
+  return BASE;
+}
+
+/**
+ * Decodes the part of a label after "xn--" (RFC 3492, section 6.2).
+ * Returns null for invalid input.
+ */
+function decodePunycode(input: string): string | null {
+  if (input === '') return null;
+  const output: number[] = [];
+  const basicEnd = input.lastIndexOf('-');
+  for (let j = 0; j < Math.max(basicEnd, 0); j++) {
+    const charCode = input.charCodeAt(j);
+    if (charCode >= 0x80) return null;
+    output.push(charCode);
+  }
+
+  let n = INITIAL_N;
+  let bias = INITIAL_BIAS;
+  let i = 0;
+  let index = basicEnd > 0 ? basicEnd + 1 : 0;
+  while (index < input.length) {
+    const oldI = i;
+    let weight = 1;
+    for (let k = BASE; ; k += BASE) {
+      if (index >= input.length) return null;
+      const digit = digitValue(input.charCodeAt(index++));
+      if (digit >= BASE) return null;
+      i += digit * weight;
+      const threshold =
+        k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+      if (digit < threshold) break;
+      weight *= BASE - threshold;
+    }
+    bias = adaptBias(i - oldI, output.length + 1, oldI === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    if (n > MAX_CODE_POINT) return null;
+    output.splice(i, 0, n);
+    i++;
+  }
+
+  return String.fromCodePoint(...output);
+}
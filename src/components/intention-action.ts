@@ -0,0 +1,57 @@
+/**
+ * What happens when a gated site is visited.
+ *
+ * Most intentions show the intention page and let the user type their way
+ * through. Others skip the typing gate: they send the tab somewhere better,
+ * close it, or show a message without a way through.
+ */
+
+import type { RawIntention } from './intention';
+import { toWebUrl } from './normalized-url';
+
+export type IntentionAction =
+  | { kind: 'intention-page' }
+  | { kind: 'redirect'; url: string }
+  | { kind: 'close-tab' }
+  | { kind: 'block'; message: string };
+
+export const DEFAULT_INTENTION_ACTION: IntentionAction = {
+  kind: 'intention-page',
+};
+
+export const DEFAULT_BLOCK_MESSAGE = 'You decided to stay away from this site.';
+
+export function intentionActionOf(raw: RawIntention): IntentionAction {
+  return raw.action ?? DEFAULT_INTENTION_ACTION;
+}
+
+/**
+ * The URL a redirect action leads to, or null when it is not a web URL.
+ */
+export function redirectUrlOf(
+  action: Extract<IntentionAction, { kind: 'redirect' }>
+): string | null {
+  return toWebUrl(action.url);
+}
+
+export function blockMessageOf(
+  action: Extract<IntentionAction, { kind: 'block' }>
+): string {
+  return action.message.trim() || DEFAULT_BLOCK_MESSAGE;
+}
+
+/**
+ * Describes an action for the intention summary, e.g. "redirects to x.com".
+ */
+export function describeIntentionAction(action: IntentionAction): string {
+  switch (action.kind) {
+    case 'intention-page':
+      return 'intention page';
+    case 'redirect':
+      return `redirects to ${action.url.trim() || '…'}`;
+    case 'close-tab':
+      return 'closes the tab';
+    case 'block':
+      return 'blocked';
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Finds intentions that get in each other's way, using the real matching rules.
+ *
+ * Every URL scope is turned into a representative target URL, which is then
+ * explained against all intentions:
+ * - 'shadowed': another intention wins on that URL, so this scope never fires there
+ * - 'duplicate': this scope wins, but another intention's scope covers exactly
+ *   the same pages (e.g. google.com and google.se)
+ * - 'overlapping': this scope wins, but sits inside a broader scope of another
+ *   intention (e.g. reddit.com/r/news inside reddit.com)
+ */
+
+import {
+  createIntentionIndex,
+  explainMatch,
+  intentionScopes,
+  lookupIntention,
+  matchesIntentionScopeIgnoringDomain,
+  type Intention,
+  type IntentionScope,
+  type ScopeExplanation,
+  type UrlIntentionScope,
+} from './intention';
+import { ANY_SUFFIX, GLOBSTAR, WILDCARD } from './url-pattern';
+import { UUID } from './uuid';
+
+export type ScopeConflictKind = 'shadowed' | 'duplicate' | 'overlapping';
+
+export interface ScopeConflict {
+  kind: ScopeConflictKind;
+  intentionId: UUID;
+  scopeUrl: string; // the URL of this intention the finding is about
+  otherIntentionId: UUID;
+  otherScopeUrl: string; // the URL of the other intention involved
+  otherPhrase: string;
+}
+
+/**
+ * Builds a URL that the scope matches, standing in for all of its pages.
+ * Wildcards are filled with a placeholder label or segment.
+ */
+export function representativeUrl(scope: UrlIntentionScope): string {
+  const fill = (part: string) => part.replaceAll(WILDCARD, 'x');
+
+  const subdomainLabels = (scope.subdomain ?? '')
+    .split('.')
+    .filter(label => label !== '')
+    // A leading * may stand for no labels at all
+    .filter((label, i) => !(i === 0 && label === WILDCARD))
+    .map(fill);
+  const suffix =
+    scope.publicSuffix === ANY_SUFFIX
+      ? 'com'
+      : scope.publicSuffix === ''
+        ? ''
+        : scope.publicSuffix;
+  const host = [...subdomainLabels, scope.domain, suffix]
+    .filter(part => part !== '')
+    .join('.');
+  const port = scope.port ? `:${scope.port}` : '';
+
+  const path = scope.path
+    .split('/')
+    .filter(segment => segment !== '' && segment !== GLOBSTAR)
+    .map(fill)
+    .map(segment => `/${segment}`)
+    .join('');
+
+  const query = scope.query
+    .map(({ key, value }) =>
+      value === null
+        ? `${encodeURIComponent(key)}=x`
+        : `${encodeURIComponent(key)}=${encodeURIComponent(value)}`
+    )
+    .join('&');
+  const hash = scope.hashRoute === null ? '' : `#${scope.hashRoute}`;
+
+  const protocol = scope.hostMode === 'public' ? 'https' : 'http';
+  return `${protocol}://${host}${port}${path}${query ? `?${query}` : ''}${hash}`;
+}
+
+const covers = (scope: IntentionScope, other: IntentionScope): boolean =>
+  other.kind === 'url' &&
+  matchesIntentionScopeIgnoringDomain(representativeUrl(other), scope);
+
+/**
+ * Finds shadowed, duplicate and overlapping scopes between intentions.
+ * Regex scopes are not checked themselves, but can shadow URL scopes.
+ */
+export function findScopeConflicts(intentions: Intention[]): ScopeConflict[] {
+  const conflicts: ScopeConflict[] = [];
+
+  for (const intention of intentions) {
+    for (const scope of intentionScopes(intention)) {
+      if (scope.kind !== 'url') continue;
+
+      // Conflicts hold whatever the time, so schedules are left out
+      const { winner, candidates } = explainMatch(
+        representativeUrl(scope),
+        intentions,
+        null
+      );
+      const finding = (kind: ScopeConflictKind, other: ScopeExplanation) => {
+        conflicts.push({
+          kind,
+          intentionId: intention.id,
+          scopeUrl: scope.originalUrl,
+          otherIntentionId: other.intention.id,
+          otherScopeUrl: other.scope.originalUrl,
+          otherPhrase: other.intention.phrase,
+        });
+      };
+
+      if (winner && winner.intention.id !== intention.id) {
+        finding('shadowed', winner);
+        continue;
+      }
+
+      for (const candidate of candidates) {
+        if (!candidate.matched || candidate.intention.id === intention.id) {
+          continue;
+        }
+        finding(
+          covers(scope, candidate.scope) ? 'duplicate' : 'overlapping',
+          candidate
+        );
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Returns the existing intention that would already be used on the pages of
+ * a new intention's main URL, or null if it would be used there itself.
+ */
+export function findCoveringIntention(
+  candidate: Intention,
+  intentions: Intention[]
+): Intention | null {
+  if (candidate.scope.kind !== 'url') return null;
+  return lookupIntention(
+    representativeUrl(candidate.scope),
+    createIntentionIndex(intentions)
+  );
+}
+
+/**
+ * Describes a conflict for display on the intention's card.
+ */
+export function describeConflict(conflict: ScopeConflict): string {
+  const other = `${conflict.otherScopeUrl} ("${conflict.otherPhrase}")`;
+  switch (conflict.kind) {
+    case 'shadowed':
+      return `${conflict.scopeUrl} is hidden by ${other}, which is used instead`;
+    case 'duplicate':
+      return `${conflict.scopeUrl} covers the same pages as ${other}`;
+    case 'overlapping':
+      return `${conflict.scopeUrl} is inside ${other}; this intention is used on its pages`;
+  }
+}
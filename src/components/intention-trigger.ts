@@ -0,0 +1,56 @@
+/**
+ * Why a tab is on the intention page.
+ *
+ * The background worker passes the trigger in the intention page URL, so the
+ * page can tell whether it was opened by navigating to a gated site, by
+ * coming back to it after a while, or because the session or the day's
+ * budget for it ran out.
+ */
+
+export type IntentionTrigger =
+  | 'navigation'
+  | 'inactivity'
+  | 'session-ended'
+  | 'budget-exhausted';
+
+const TRIGGERS: IntentionTrigger[] = [
+  'navigation',
+  'inactivity',
+  'session-ended',
+  'budget-exhausted',
+];
+
+// Why the background worker blocked a navigation
+export type BlockReason =
+  | 'matched-scope'
+  | 'session-ended'
+  | 'budget-exhausted';
+
+/**
+ * The trigger shown for a blocked navigation. Only a plain match counts as
+ * navigation; a session or budget that ran out is named as such.
+ */
+export function triggerForBlock(reason: BlockReason): IntentionTrigger {
+  return reason === 'matched-scope' ? 'navigation' : reason;
+}
+
+/**
+ * Reads the trigger query parameter. Pages opened before it existed, or with
+ * an unknown value, count as navigation.
+ */
+export function parseIntentionTrigger(value: string | null): IntentionTrigger {
+  return TRIGGERS.find(trigger => trigger === value) ?? 'navigation';
+}
+
+export function describeIntentionTrigger(trigger: IntentionTrigger): string {
+  switch (trigger) {
+    case 'navigation':
+      return 'You opened this site';
+    case 'inactivity':
+      return 'You came back after a while away';
+    case 'session-ended':
+      return 'Your session on this site is over';
+    case 'budget-exhausted':
+      return "You used up today's budget for this site";
+  }
+}
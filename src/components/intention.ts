@@ -8,16 +8,62 @@
 import countries from 'i18n-iso-countries';
 import ISO6391 from 'iso-639-1';
 import { Brand } from 'ts-brand';
-import { normalizeUrl, parseUrlString, toComponents } from './normalized-url';
+import { mapNulls } from './helpers';
+import { toUnicodeHostname } from './idn';
+import {
+  normalizeUrl,
+  normalizeUrlWithQueryAndHash,
+  parseUrlString,
+  toComponents,
+  type HostMode,
+  type UrlComponents,
+} from './normalized-url';
+import type { PhraseRotation } from './phrase-rotation';
+import type { GuidedPause } from './guided-pause';
+import type { IntentionAction } from './intention-action';
+import type { PromptMode } from './reflection';
+import { isRegexScope, parseRegexScope } from './regex-scope';
+import {
+  describeSchedule,
+  isScheduleActive,
+  parseSchedule,
+  type IntentionSchedule,
+} from './schedule';
+import {
+  createSegmentTrie,
+  insertIntoTrie,
+  nodesAlong,
+  type SegmentTrie,
+} from './segment-trie';
+import {
+  ANY_SUFFIX,
+  hasWildcard,
+  isUrlPattern,
+  matchesPathPattern,
+  matchesSubdomainPattern,
+  parseUrlPattern,
+} from './url-pattern';
 import { UUID, generateUUID } from './uuid';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-// Branded type for intention index
+// A scope in the index, with the position of its intention for stable ordering
+export interface IndexedScope<S extends IntentionScope> {
+  scope: S;
+  intention: Intention;
+  order: number;
+}
+
+// Branded type for intention index: per host mode, a trie keyed by site name,
+// reversed subdomain labels, then path segments. Regex scopes live in a bucket
+// of their own since they cannot be keyed.
 export type IntentionIndex = Brand<
-  Map<string, { scope: IntentionScope; intention: Intention }[]>,
+  {
+    byHostMode: Record<HostMode, SegmentTrie<IndexedScope<UrlIntentionScope>>>;
+    regexScopes: IndexedScope<RegexIntentionScope>[];
+  },
   'IntentionIndex'
 >;
 
@@ -34,28 +80,107 @@ export function intentionToIntentionScopeId(
   return intention.id as IntentionScopeId;
 }
 
-export interface IntentionScope {
+/**
+ * How an intention path is compared with a target path:
+ * - 'prefix': any path starting with the text (reddit.com/r/news also covers /r/newsokc)
+ * - 'segment': the path and everything below it, on `/` boundaries
+ * - 'exact': only that exact path
+ */
+export type PathMatchMode = 'prefix' | 'segment' | 'exact';
+
+export const DEFAULT_PATH_MATCH_MODE: PathMatchMode = 'segment';
+
+export const DEFAULT_HOST_MODE: HostMode = 'public';
+
+/**
+ * Whether the query and hash written in an intention's URLs are matched:
+ * - 'ignore': youtube.com/watch?v=abc covers every video, as it did on
+ *   intentions saved before query and hash could be required
+ * - 'require': targets must carry the query parameters and hash route
+ */
+export type QueryMatchMode = 'ignore' | 'require';
+
+export const DEFAULT_QUERY_MATCH_MODE: QueryMatchMode = 'ignore';
+
+/**
+ * How language variants of a site are recognized:
+ * - 'loose': country suffixes (facebook.de), language subdomains (de.facebook.com)
+ *   and any language code as first path segment (/it/, /en-us/)
+ * - 'strict': like loose, but only language-region path segments (/en-us/),
+ *   so /no/ or /it/ stay part of the path
+ * - 'off': no language variants, suffix, subdomain and path must match as written
+ */
+export type LanguageMatchMode = 'strict' | 'loose' | 'off';
+
+export const DEFAULT_LANGUAGE_MATCH_MODE: LanguageMatchMode = 'loose';
+
+/**
+ * A query parameter a target URL must carry.
+ * A null value means any value is accepted (e.g. youtube.com/results?search_query).
+ */
+export interface QueryRequirement {
+  key: string;
+  value: string | null;
+}
+
+export interface UrlIntentionScope {
+  kind: 'url';
   domain: string; // e.g. "facebook"
-  publicSuffix: string; // e.g. "com", "se", "co.uk"
-  subdomain: string | null; // e.g. "sv", "mail" or null
-  path: string; // e.g. "/groups/foo", may be ""
-  urlLength: number; // length of the full normalized string
+  publicSuffix: string; // e.g. "com", "se", "co.uk", or "*" for any suffix
+  subdomain: string | null; // e.g. "sv", "mail", "*" or null
+  port: string | null; // e.g. "3000", or null to accept any port
+  path: string; // e.g. "/groups/foo", "/r/*/comments", may be ""
+  pathMatch: PathMatchMode; // how path is compared with target paths
+  languageMatch: LanguageMatchMode; // which language variants of the target are accepted
+  query: QueryRequirement[]; // query parameters the target must carry, usually none
+  hashRoute: string | null; // hash route prefix, e.g. "/inbox" for "#/inbox"
+  urlLength: number; // length of the full normalized string, wildcards excluded
   hasLanguageSuffix: boolean; // true if publicSuffix is a language-specific TLD
   hasLanguageSubdomain: boolean; // true if subdomain is a language code
   hasLanguagePathStart: boolean; // true if path starts with a language code
+  hostMode: HostMode; // how target URLs are parsed when compared with this scope
   originalUrl: string; // the original URL string that was parsed
 }
 
+export interface RegexIntentionScope {
+  kind: 'regex';
+  pattern: RegExp; // tested case-insensitively against the full target URL
+  originalUrl: string; // the original "/.../" string that was parsed
+}
+
+export type IntentionScope = UrlIntentionScope | RegexIntentionScope;
+
 export interface Intention {
   id: UUID; // UUID for unique identification
   scope: IntentionScope;
+  additionalScopes: IntentionScope[]; // further sites sharing this phrase and IntentionScopeId
+  exceptions: IntentionScope[]; // targets inside scope that are let through
+  hostMode: HostMode; // host mode all scopes were parsed with
   phrase: string;
+  schedule: IntentionSchedule | null; // null when the intention always applies
 }
 
 export interface RawIntention {
   id: UUID;
   url: string;
   phrase: string;
+  additionalUrls?: string[]; // absent on intentions saved before multiple URLs existed
+  pathMatch?: PathMatchMode; // defaults to DEFAULT_PATH_MATCH_MODE
+  languageMatch?: LanguageMatchMode; // defaults to DEFAULT_LANGUAGE_MATCH_MODE
+  queryMatch?: QueryMatchMode; // defaults to DEFAULT_QUERY_MATCH_MODE
+  exceptions?: string[]; // exception URLs, absent on intentions saved before exceptions existed
+  hostMode?: HostMode; // defaults to DEFAULT_HOST_MODE
+  sessionMinutes?: number; // preselected access session length, absent for no limit
+  dailyVisitLimit?: number; // completions allowed per budget day, absent for no limit
+  dailyMinutesLimit?: number; // active minutes allowed per budget day, absent for no limit
+  schedule?: IntentionSchedule; // absent when the intention always applies
+  additionalPhrases?: string[]; // shown in turn with phrase, absent for a single phrase
+  phraseRotation?: PhraseRotation; // defaults to DEFAULT_PHRASE_ROTATION
+  promptMode?: PromptMode; // defaults to DEFAULT_PROMPT_MODE
+  reflectionQuestion?: string; // defaults to DEFAULT_REFLECTION_QUESTION
+  reflectionMinLength?: number; // defaults to DEFAULT_REFLECTION_MIN_LENGTH
+  guidedPause?: GuidedPause; // absent to use the global guided pause
+  action?: IntentionAction; // defaults to DEFAULT_INTENTION_ACTION
 }
 
 export function emptyRawIntention(): RawIntention {
@@ -66,6 +191,20 @@ export function makeRawIntention(url: string, phrase: string): RawIntention {
   return { id: generateUUID(), url, phrase };
 }
 
+/**
+ * Returns every URL of a RawIntention, the primary URL first.
+ */
+export function rawIntentionUrls(raw: RawIntention): string[] {
+  return [raw.url, ...(raw.additionalUrls ?? [])];
+}
+
+/**
+ * Returns every scope of an Intention, the primary scope first.
+ */
+export function intentionScopes(intention: Intention): IntentionScope[] {
+  return [intention.scope, ...intention.additionalScopes];
+}
+
 // ============================================================================
 // LANGUAGE DETECTION
 // ============================================================================
@@ -96,28 +235,38 @@ export function isLanguageCode(code: string): boolean {
  * Uses the official country code list to determine language-specific TLDs.
  */
 export function isLanguageSuffix(suffix: string): boolean {
-  // Get all country codes from i18n-iso-countries
-  const countryCodes = Object.keys(countries.getAlpha2Codes());
+  // Get all country codes from i18n-iso-countries (once, this runs per navigation)
+  countryCodes ??= new Set(Object.keys(countries.getAlpha2Codes()));
 
   // Check if suffix matches a country code (common pattern for ccTLDs)
   // Convert to uppercase for comparison since country codes are uppercase
-  return countryCodes.includes(suffix.toUpperCase());
+  return countryCodes.has(suffix.toUpperCase());
 }
 
+let countryCodes: Set<string> | null = null;
+
 /**
  * Extracts language part from a path if present using URLPattern.
  * Returns the language code and the remaining path.
+ * In 'strict' mode only language-region segments (e.g. 'en-us') count,
+ * in 'off' mode no segment does.
  */
-export function extractLanguageFromPath(path: string): {
+export function extractLanguageFromPath(
+  path: string,
+  mode: LanguageMatchMode
+): {
   language: string | null;
   remainingPath: string;
 } {
   const match = path.match(/^\/([^\/]+)(\/.*)?$/);
-  if (!match) return { language: null, remainingPath: path };
+  if (!match || mode === 'off') return { language: null, remainingPath: path };
 
   const [, firstSegment, rest = ''] = match;
 
-  if (isLanguageCode(firstSegment)) {
+  if (
+    isLanguageCode(firstSegment) &&
+    (mode === 'loose' || firstSegment.includes('-'))
+  ) {
     return {
       language: firstSegment,
       remainingPath: rest || '',
@@ -131,68 +280,261 @@ export function extractLanguageFromPath(path: string): {
 // INTENTION PARSING
 // ============================================================================
 
+export type ScopeParseResult =
+  | { kind: 'ok'; scope: IntentionScope }
+  | { kind: 'error'; message: string };
+
 /**
- * Parses a URL string into an IntentionScope for matching.
+ * Parses a URL string or wildcard pattern into an IntentionScope,
+ * with a user-facing message when it cannot be parsed.
  */
-export function parseUrlToScope(urlString: string): IntentionScope | null {
-  const parsedUrl = parseUrlString(urlString);
+export function parseScope(
+  urlString: string,
+  hostMode: HostMode
+): ScopeParseResult {
+  if (isRegexScope(urlString)) {
+    const result = parseRegexScope(urlString);
+    if (result.kind === 'error') {
+      return result;
+    }
+    return {
+      kind: 'ok',
+      scope: { kind: 'regex', pattern: result.pattern, originalUrl: urlString },
+    };
+  }
+
+  if (isUrlPattern(urlString)) {
+    const result = parseUrlPattern(urlString, hostMode);
+    if (result.kind === 'error') {
+      return result;
+    }
+    const {
+      domain,
+      publicSuffix,
+      subdomain,
+      port,
+      path,
+      hostMode: patternHostMode,
+      literalLength,
+    } = result.pattern;
+    const { language: pathLanguage } = extractLanguageFromPath(path, 'loose');
+    const { search, hash } = splitQueryAndHash(urlString.trim());
+
+    return {
+      kind: 'ok',
+      scope: {
+        kind: 'url',
+        domain,
+        publicSuffix,
+        subdomain,
+        port,
+        path,
+        pathMatch: DEFAULT_PATH_MATCH_MODE,
+        languageMatch: DEFAULT_LANGUAGE_MATCH_MODE,
+        query: parseQueryRequirements(search),
+        hashRoute: parseHashRoute(hash),
+        urlLength: literalLength + search.length + hash.length,
+        hasLanguageSuffix:
+          publicSuffix !== ANY_SUFFIX && isLanguageSuffix(publicSuffix),
+        hasLanguageSubdomain:
+          subdomain !== null &&
+          !hasWildcard(subdomain) &&
+          isLanguageCode(subdomain),
+        hasLanguagePathStart:
+          pathLanguage !== null && !hasWildcard(pathLanguage),
+        hostMode: patternHostMode,
+        originalUrl: urlString,
+      },
+    };
+  }
+
+  const parsedUrl = parseUrlString(urlString, hostMode);
   if (!parsedUrl) {
-    return null;
+    if (
+      hostMode === 'public' &&
+      parseUrlString(urlString, 'local-and-private')
+    ) {
+      return {
+        kind: 'error',
+        message: 'Turn on local & private addresses in Options to use this',
+      };
+    }
+    return { kind: 'error', message: 'Enter a website like example.com' };
   }
-  const normalizedUrl = normalizeUrl(parsedUrl);
-  const { domain, publicSuffix, subdomain, path } = toComponents(normalizedUrl);
+  // Keep query and hash only when the intention asks for them
+  const normalizedUrl =
+    parsedUrl.search || parsedUrl.hash
+      ? normalizeUrlWithQueryAndHash(parsedUrl)
+      : normalizeUrl(parsedUrl);
+  const { domain, publicSuffix, subdomain, port, path, query, hash } =
+    toComponents(normalizedUrl, hostMode);
 
   // Check for language parts
   const hasLanguageSubdomain = subdomain ? isLanguageCode(subdomain) : false;
   const hasLanguageSuffix = isLanguageSuffix(publicSuffix);
-  const { language: pathLanguage } = extractLanguageFromPath(path);
+  const { language: pathLanguage } = extractLanguageFromPath(path, 'loose');
   const hasLanguagePathStart = pathLanguage !== null;
 
   return {
-    domain,
-    publicSuffix,
-    subdomain,
-    path,
-    urlLength: normalizedUrl.length,
-    hasLanguageSuffix,
-    hasLanguageSubdomain,
-    hasLanguagePathStart,
-    originalUrl: urlString,
+    kind: 'ok',
+    scope: {
+      kind: 'url',
+      domain,
+      publicSuffix,
+      subdomain,
+      port: port || null,
+      path,
+      pathMatch: DEFAULT_PATH_MATCH_MODE,
+      languageMatch: DEFAULT_LANGUAGE_MATCH_MODE,
+      query: parseQueryRequirements(query),
+      hashRoute: parseHashRoute(hash),
+      urlLength: normalizedUrl.length,
+      hasLanguageSuffix,
+      hasLanguageSubdomain,
+      hasLanguagePathStart,
+      hostMode,
+      originalUrl: urlString,
+    },
   };
 }
 
+/**
+ * Splits the query string and hash fragment off a URL string or pattern.
+ */
+function splitQueryAndHash(urlString: string): {
+  search: string;
+  hash: string;
+} {
+  const hashIndex = urlString.indexOf('#');
+  const hash = hashIndex === -1 ? '' : urlString.slice(hashIndex);
+  const withoutHash =
+    hashIndex === -1 ? urlString : urlString.slice(0, hashIndex);
+  const queryIndex = withoutHash.indexOf('?');
+  const search = queryIndex === -1 ? '' : withoutHash.slice(queryIndex);
+  return { search, hash };
+}
+
+/**
+ * Parses a query string ("?a=1&b") into the parameters a target must carry.
+ * Parameters without a value only require the key to be present.
+ */
+export function parseQueryRequirements(search: string): QueryRequirement[] {
+  return Array.from(new URLSearchParams(search), ([key, value]) => ({
+    key,
+    value: value === '' ? null : value,
+  }));
+}
+
+/**
+ * Parses a hash fragment ("#/inbox/") into a comparable route ("/inbox").
+ * Returns null if the fragment is empty.
+ */
+export function parseHashRoute(hash: string): string | null {
+  const route = hash.replace(/^#/, '').replace(/\/+$/, '');
+  return route === '' ? null : route;
+}
+
+/**
+ * Parses a URL string into an IntentionScope for matching.
+ */
+export function parseUrlToScope(
+  urlString: string,
+  hostMode: HostMode
+): IntentionScope | null {
+  const result = parseScope(urlString, hostMode);
+  return result.kind === 'ok' ? result.scope : null;
+}
+
 /**
  * Converts a Intention to RawIntention
  */
 export function parsedIntentionToRaw(intention: Intention): RawIntention {
+  const firstUrlScope = intentionScopes(intention).find(
+    scope => scope.kind === 'url'
+  );
   return {
     id: intention.id,
     url: intention.scope.originalUrl,
     phrase: intention.phrase,
+    additionalUrls: intention.additionalScopes.map(scope => scope.originalUrl),
+    pathMatch: firstUrlScope?.pathMatch ?? DEFAULT_PATH_MATCH_MODE,
+    languageMatch: firstUrlScope?.languageMatch ?? DEFAULT_LANGUAGE_MATCH_MODE,
+    ...(intentionScopes(intention).some(
+      scope =>
+        scope.kind === 'url' &&
+        (scope.query.length > 0 || scope.hashRoute !== null)
+    ) && { queryMatch: 'require' as const }),
+    exceptions: intention.exceptions.map(exception => exception.originalUrl),
+    hostMode: intention.hostMode,
+    ...(intention.schedule && { schedule: intention.schedule }),
   };
 }
 
 /**
  * Attempts to convert a RawIntention to Intention.
  * Returns null if the URL cannot be parsed.
+ * Additional URLs and exceptions that cannot be parsed are left out.
  */
 export function parseIntention(raw: RawIntention): Intention | null {
-  const scope = parseUrlToScope(raw.url);
+  const hostMode = raw.hostMode ?? DEFAULT_HOST_MODE;
+  const queryMatch = raw.queryMatch ?? DEFAULT_QUERY_MATCH_MODE;
+  // Ignored query and hash are left out, but stay in originalUrl as written
+  const parse = (url: string) => {
+    if (queryMatch === 'require' || isRegexScope(url)) {
+      return parseUrlToScope(url, hostMode);
+    }
+    const parsed = parseUrlToScope(
+      url.trim().replace(/[?#].*$/s, ''),
+      hostMode
+    );
+    return parsed && { ...parsed, originalUrl: url };
+  };
+  const scope = parse(raw.url);
   if (!scope) {
     return null;
   }
+  const pathMatch = raw.pathMatch ?? DEFAULT_PATH_MATCH_MODE;
+  const languageMatch = raw.languageMatch ?? DEFAULT_LANGUAGE_MATCH_MODE;
+  const withLanguageMatch = (parsed: IntentionScope): IntentionScope =>
+    parsed.kind === 'url' ? { ...parsed, languageMatch } : parsed;
+  const withMatchModes = (parsed: IntentionScope): IntentionScope =>
+    parsed.kind === 'url' ? { ...parsed, pathMatch, languageMatch } : parsed;
   return {
     id: raw.id,
-    scope,
+    scope: withMatchModes(scope),
+    additionalScopes: mapNulls(parse, raw.additionalUrls ?? []).map(
+      withMatchModes
+    ),
+    // Exceptions keep their own path matching, but follow the language mode
+    exceptions: mapNulls(parse, raw.exceptions ?? []).map(withLanguageMatch),
+    hostMode,
     phrase: raw.phrase,
+    schedule: parseSchedule(raw.schedule),
   };
 }
 
+/**
+ * Returns the host mode a URL needs: 'public' when it parses as a public
+ * website, otherwise 'local-and-private' (e.g. localhost:3000).
+ */
+export function requiredHostMode(url: string): HostMode {
+  return parseUrlString(url, 'public') ? 'public' : 'local-and-private';
+}
+
 /**
  * Checks if a RawIntention can be parsed successfully.
  */
 export function canParseIntention(raw: RawIntention): boolean {
-  return parseUrlToScope(raw.url) !== null;
+  return parseUrlToScope(raw.url, raw.hostMode ?? DEFAULT_HOST_MODE) !== null;
+}
+
+/**
+ * Returns a user-facing message explaining why a RawIntention's URL cannot be
+ * parsed, or null if it parses.
+ */
+export function intentionUrlError(raw: RawIntention): string | null {
+  const result = parseScope(raw.url, raw.hostMode ?? DEFAULT_HOST_MODE);
+  return result.kind === 'error' ? result.message : null;
 }
 
 /**
@@ -216,32 +558,115 @@ export function isPhraseEmpty(phrase: string): boolean {
 // INTENTION INDEXING AND LOOKUP
 // ============================================================================
 
+// Separates host labels from path segments in trie keys; never part of a label
+const PATH_MARKER = '/';
+
+const pathSegments = (path: string): string[] =>
+  path.split('/').filter(segment => segment !== '');
+
+const takeLiteral = (parts: string[]): string[] => {
+  const firstWildcard = parts.findIndex(part => hasWildcard(part));
+  return firstWildcard === -1 ? parts : parts.slice(0, firstWildcard);
+};
+
 /**
- * Creates an index for fast intention lookup by domain.
+ * Trie keys a URL scope is stored under. A target can only match the scope if
+ * these keys lie along its own keys, so lookups only check scopes on the way.
+ * Parts the matching rules treat loosely (language subdomains, wildcards,
+ * the last segment of a prefix path) are left out of the keys.
+ */
+function trieKeysForScope(scope: UrlIntentionScope): string[][] {
+  const hostKeys =
+    !scope.subdomain || scope.hasLanguageSubdomain
+      ? [scope.domain]
+      : [scope.domain, ...takeLiteral(scope.subdomain.split('.').reverse())];
+
+  const pathKeys = (path: string): string[] => {
+    const segments = pathSegments(path);
+    const literal = takeLiteral(segments);
+    // A prefix path may end in the middle of a target segment
+    return scope.pathMatch === 'prefix' && literal.length === segments.length
+      ? literal.slice(0, -1)
+      : literal;
+  };
+
+  const paths = [scope.path];
+  const { language, remainingPath } = extractLanguageFromPath(
+    scope.path,
+    scope.languageMatch
+  );
+  if (scope.hasLanguagePathStart && language !== null) {
+    paths.push(remainingPath);
+  }
+  return paths.map(path => [...hostKeys, PATH_MARKER, ...pathKeys(path)]);
+}
+
+/**
+ * Creates an index for fast intention lookup.
+ * Every scope of an intention is indexed, all pointing at the same intention.
+ * Regex scopes go into a separate bucket, kept in definition order.
  */
 export function createIntentionIndex(intentions: Intention[]): IntentionIndex {
-  const index = new Map<
-    string,
-    { scope: IntentionScope; intention: Intention }[]
-  >();
+  const byHostMode: Record<
+    HostMode,
+    SegmentTrie<IndexedScope<UrlIntentionScope>>
+  > = {
+    public: createSegmentTrie(),
+    'local-and-private': createSegmentTrie(),
+  };
+  const regexScopes: IndexedScope<RegexIntentionScope>[] = [];
 
+  let order = 0;
   for (const intention of intentions) {
-    const { scope } = intention;
-    const key = scope.domain;
+    for (const scope of intentionScopes(intention)) {
+      if (scope.kind === 'regex') {
+        regexScopes.push({ scope, intention, order: order++ });
+        continue;
+      }
 
-    if (!index.has(key)) {
-      index.set(key, []);
+      const entry = { scope, intention, order: order++ };
+      for (const keys of trieKeysForScope(scope)) {
+        insertIntoTrie(byHostMode[scope.hostMode], keys, entry);
+      }
     }
-
-    index.get(key)!.push({ scope, intention });
   }
 
-  // Sort each domain's intentions by urlLength descending
-  for (const [domain, intentionScopes] of index) {
-    intentionScopes.sort((a, b) => b.scope.urlLength - a.scope.urlLength);
-  }
+  return { byHostMode, regexScopes } as IntentionIndex;
+}
+
+/**
+ * A target URL parsed once, for matching against many scopes.
+ * Holds the parsed URL and its components for each host mode it parses in.
+ */
+export interface ParsedTarget {
+  url: string;
+  byHostMode: Record<
+    HostMode,
+    { parsedUrl: URL; components: UrlComponents } | null
+  >;
+}
 
-  return index as IntentionIndex;
+/**
+ * Parses a target URL for matching.
+ * Parsed as a plain URL: targets are never patterns, even if they contain '*'.
+ */
+export function parseTarget(targetUrl: string): ParsedTarget {
+  const parseIn = (hostMode: HostMode) => {
+    const parsedUrl = parseUrlString(targetUrl, hostMode);
+    return parsedUrl
+      ? {
+          parsedUrl,
+          components: toComponents(normalizeUrl(parsedUrl), hostMode),
+        }
+      : null;
+  };
+  return {
+    url: targetUrl,
+    byHostMode: {
+      public: parseIn('public'),
+      'local-and-private': parseIn('local-and-private'),
+    },
+  };
 }
 
 /**
@@ -252,130 +677,584 @@ export function matchesIntentionScopeIgnoringDomain(
   targetUrl: string,
   intentionScope: IntentionScope
 ): boolean {
-  const parsedUrl = parseUrlString(targetUrl);
-  if (!parsedUrl) {
-    return false;
+  return matchesParsedTarget(parseTarget(targetUrl), intentionScope);
+}
+
+/**
+ * Like matchesIntentionScopeIgnoringDomain, for a target that is already parsed.
+ */
+export function matchesParsedTarget(
+  target: ParsedTarget,
+  intentionScope: IntentionScope
+): boolean {
+  return scopeMatchSteps(target, intentionScope).every(step => step.passed);
+}
+
+/**
+ * The matching steps reported by scopeMatchSteps.
+ * 'language' appears when a path only matched after ignoring a language segment.
+ */
+export type MatchStep =
+  | 'address'
+  | 'suffix'
+  | 'subdomain'
+  | 'port'
+  | 'path'
+  | 'language'
+  | 'query-and-hash'
+  | 'regex'
+  | 'schedule'
+  | 'exception';
+
+export interface MatchStepResult {
+  step: MatchStep;
+  passed: boolean;
+  detail: string; // user-facing explanation of the outcome
+}
+
+type StepOutcome = { passed: boolean; detail: string };
+
+/**
+ * Runs the matching rules of one scope against a target, recording every step.
+ * Stops at the first failing step, like the matching itself.
+ */
+export function scopeMatchSteps(
+  target: ParsedTarget,
+  intentionScope: IntentionScope
+): MatchStepResult[] {
+  const steps: MatchStepResult[] = [];
+  const record = (step: MatchStep, { passed, detail }: StepOutcome) => {
+    steps.push({ step, passed, detail });
+    return passed;
+  };
+
+  if (intentionScope.kind === 'regex') {
+    const passed = intentionScope.pattern.test(target.url);
+    record('regex', {
+      passed,
+      detail: passed
+        ? 'The URL matches the regular expression'
+        : 'The URL does not match the regular expression',
+    });
+    return steps;
+  }
+
+  const parsed = target.byHostMode[intentionScope.hostMode];
+  if (!parsed) {
+    record('address', {
+      passed: false,
+      detail:
+        intentionScope.hostMode === 'public'
+          ? 'Not a public website address'
+          : 'Not a web address',
+    });
+    return steps;
   }
-  const normalizedTarget = normalizeUrl(parsedUrl);
-  const targetParts = toComponents(normalizedTarget);
+  const { parsedUrl, components } = parsed;
 
   // Step 1: Public Suffix Match
-  if (intentionScope.hasLanguageSuffix) {
+  if (!record('suffix', suffixStep(components, intentionScope))) return steps;
+
+  // Step 2: Subdomain Match
+  if (!record('subdomain', subdomainStep(components, intentionScope))) {
+    return steps;
+  }
+
+  // Port Match (only when the intention names a port, e.g. localhost:3000)
+  if (intentionScope.port !== null) {
+    const passed = components.port === intentionScope.port;
+    const detail = passed
+      ? `Port ${intentionScope.port} matches`
+      : `Port ${components.port || '(default)'} is not ${intentionScope.port}`;
+    if (!record('port', { passed, detail })) return steps;
+  }
+
+  // Step 3: Path Match
+  const pathOutcome = matchesScopePath(components.path, intentionScope);
+  const targetPath = components.path || '/';
+  const intentionPath = intentionScope.path || '/';
+  if (!pathOutcome.matched) {
+    record('path', {
+      passed: false,
+      detail: `${targetPath} is not covered by ${intentionPath} (${intentionScope.pathMatch} match, also tried without language segments)`,
+    });
+    return steps;
+  }
+  record('path', {
+    passed: true,
+    detail:
+      pathOutcome.via === 'any-path'
+        ? 'The intention covers every path'
+        : `${targetPath} is covered by ${intentionPath} (${intentionScope.pathMatch} match)`,
+  });
+  if (pathOutcome.via === 'target-language') {
+    record('language', {
+      passed: true,
+      detail: `Ignored the language segment in the target path ${targetPath}`,
+    });
+  } else if (pathOutcome.via === 'intention-language') {
+    record('language', {
+      passed: true,
+      detail: `Ignored the language segment in the intention path ${intentionPath}`,
+    });
+  }
+
+  // Step 4: Query and Hash Match (only when the intention asks for them)
+  if (intentionScope.query.length > 0 || intentionScope.hashRoute !== null) {
+    const passed = matchesQueryAndHash(parsedUrl, intentionScope);
+    record('query-and-hash', {
+      passed,
+      detail: passed
+        ? 'The required query parameters and hash route are present'
+        : 'The required query parameters or hash route are missing',
+    });
+  }
+
+  return steps;
+}
+
+function suffixStep(
+  components: UrlComponents,
+  intentionScope: UrlIntentionScope
+): StepOutcome {
+  const targetSuffix = `.${components.publicSuffix}`;
+  if (intentionScope.publicSuffix === ANY_SUFFIX) {
+    // Wildcard suffix pattern (e.g. "news.*") matches any suffix
+    return { passed: true, detail: 'The intention accepts any suffix' };
+  } else if (intentionScope.languageMatch === 'off') {
+    const passed = components.publicSuffix === intentionScope.publicSuffix;
+    return {
+      passed,
+      detail: passed
+        ? `${targetSuffix} matches`
+        : `${targetSuffix} is not .${intentionScope.publicSuffix} (language variants are off)`,
+    };
+  } else if (intentionScope.hasLanguageSuffix) {
     // If intention has language suffix, match any suffix
     // (no suffix check needed)
+    return {
+      passed: true,
+      detail: `The intention's language suffix .${intentionScope.publicSuffix} accepts any suffix`,
+    };
   } else {
     // If intention has non-language suffix, match same suffix OR any language suffix
-    if (isLanguageSuffix(targetParts.publicSuffix)) {
+    if (isLanguageSuffix(components.publicSuffix)) {
       // Target has language suffix - always match
+      return {
+        passed: true,
+        detail: `${targetSuffix} is a language suffix, which is always accepted`,
+      };
     } else {
       // Target has non-language suffix - must match intention suffix
-      if (targetParts.publicSuffix !== intentionScope.publicSuffix) {
-        return false;
-      }
+      const passed = components.publicSuffix === intentionScope.publicSuffix;
+      return {
+        passed,
+        detail: passed
+          ? `${targetSuffix} matches`
+          : `${targetSuffix} is not .${intentionScope.publicSuffix}`,
+      };
     }
   }
+}
 
-  // Step 2: Subdomain Match
-  if (intentionScope.subdomain) {
+function subdomainStep(
+  components: UrlComponents,
+  intentionScope: UrlIntentionScope
+): StepOutcome {
+  const targetSubdomain = components.subdomain;
+  const shown = targetSubdomain ? `"${targetSubdomain}"` : 'No subdomain';
+  if (hasWildcard(intentionScope.subdomain)) {
+    // Wildcard subdomain pattern (e.g. "*.reddit.com") decides on its own
+    const passed = matchesSubdomainPattern(
+      targetSubdomain,
+      intentionScope.subdomain!
+    );
+    return {
+      passed,
+      detail: `${shown} ${passed ? 'matches' : 'does not match'} "${intentionScope.subdomain}"`,
+    };
+  } else if (intentionScope.languageMatch === 'off') {
+    // Without language variants, the subdomain must match as written
+    const passed = targetSubdomain === intentionScope.subdomain;
+    return {
+      passed,
+      detail: passed
+        ? `${shown} matches`
+        : `${shown} is not ${intentionScope.subdomain ? `"${intentionScope.subdomain}"` : 'empty'} (language variants are off)`,
+    };
+  } else if (intentionScope.subdomain) {
     // If intention has subdomain, check if it's a language subdomain
     if (intentionScope.hasLanguageSubdomain) {
       // If intention has language subdomain, target can have:
       // - no subdomain
       // - same language subdomain
       // - different language subdomain
-      if (targetParts.subdomain) {
-        // Target has subdomain - must be a language subdomain
-        if (!isLanguageCode(targetParts.subdomain)) {
-          return false;
-        }
-      }
+      // Target has subdomain - must be a language subdomain
+      const passed = !targetSubdomain || isLanguageCode(targetSubdomain);
+      return {
+        passed,
+        detail: passed
+          ? `${shown} is accepted by the intention's language subdomain`
+          : `${shown} is not a language subdomain`,
+      };
     } else {
       // If intention has non-language subdomain, target must match exactly
-      if (targetParts.subdomain !== intentionScope.subdomain) {
-        return false;
-      }
+      const passed = targetSubdomain === intentionScope.subdomain;
+      return {
+        passed,
+        detail: passed
+          ? `${shown} matches`
+          : `${shown} is not "${intentionScope.subdomain}"`,
+      };
     }
   } else {
     // If intention has no subdomain, target can have:
     // - no subdomain
     // - www subdomains (already stripped in normalization)
     // - language subdomains (stripped)
-    if (targetParts.subdomain) {
-      // Check if target subdomain is a language code
-      if (!isLanguageCode(targetParts.subdomain)) {
-        return false;
-      }
+    if (!targetSubdomain) {
+      return { passed: true, detail: 'No subdomain (www is ignored)' };
     }
+    // Check if target subdomain is a language code
+    const passed = isLanguageCode(targetSubdomain);
+    return {
+      passed,
+      detail: passed
+        ? `${shown} is a language subdomain, which is always accepted`
+        : `${shown} is not a language subdomain`,
+    };
   }
+}
 
-  // Step 3: Path Match
-  if (!intentionScope.path) {
+type PathMatchOutcome =
+  | {
+      matched: true;
+      via: 'any-path' | 'path' | 'target-language' | 'intention-language';
+    }
+  | { matched: false };
+
+/**
+ * Path step of the matching rules, including language stripping.
+ */
+function matchesScopePath(
+  targetPath: string,
+  intentionScope: UrlIntentionScope
+): PathMatchOutcome {
+  const { pathMatch } = intentionScope;
+  if (!intentionScope.path && pathMatch !== 'exact') {
     // If intentionScope.path is empty, match any path
-    return true;
+    return { matched: true, via: 'any-path' };
+  }
+
+  if (hasWildcard(intentionScope.path)) {
+    // Wildcard path pattern, with or without a language segment in the target
+    const { remainingPath } = extractLanguageFromPath(
+      targetPath,
+      intentionScope.languageMatch
+    );
+    if (matchesPathPattern(targetPath, intentionScope.path, pathMatch)) {
+      return { matched: true, via: 'path' };
+    }
+    if (matchesPathPattern(remainingPath, intentionScope.path, pathMatch)) {
+      return { matched: true, via: 'target-language' };
+    }
+    return { matched: false };
   }
 
   // Try matching with original path first
-  if (targetParts.path.startsWith(intentionScope.path)) {
-    return true;
+  if (matchesPath(targetPath, intentionScope.path, pathMatch)) {
+    return { matched: true, via: 'path' };
   }
 
   // If that fails, try stripping language from target path
-  const { remainingPath } = extractLanguageFromPath(targetParts.path);
-  if (remainingPath.startsWith(intentionScope.path)) {
-    return true;
+  const { remainingPath } = extractLanguageFromPath(
+    targetPath,
+    intentionScope.languageMatch
+  );
+  if (matchesPath(remainingPath, intentionScope.path, pathMatch)) {
+    return { matched: true, via: 'target-language' };
   }
 
   // If that fails, try stripping language from intention path
   const { remainingPath: intentionRemainingPath } = extractLanguageFromPath(
-    intentionScope.path
+    intentionScope.path,
+    intentionScope.languageMatch
   );
-  if (targetParts.path.startsWith(intentionRemainingPath)) {
+  if (matchesPath(targetPath, intentionRemainingPath, pathMatch)) {
+    return { matched: true, via: 'intention-language' };
+  }
+
+  return { matched: false };
+}
+
+/**
+ * Checks a target URL's query parameters and hash route against a scope.
+ * Extra target parameters are allowed; the hash route is compared like a path.
+ */
+function matchesQueryAndHash(
+  targetUrl: URL,
+  intentionScope: UrlIntentionScope
+): boolean {
+  const queryMatches = intentionScope.query.every(({ key, value }) =>
+    value === null
+      ? targetUrl.searchParams.has(key)
+      : targetUrl.searchParams.getAll(key).includes(value)
+  );
+  if (!queryMatches) {
+    return false;
+  }
+
+  if (intentionScope.hashRoute === null) {
     return true;
   }
+  return matchesPath(
+    parseHashRoute(targetUrl.hash) ?? '',
+    intentionScope.hashRoute,
+    intentionScope.pathMatch
+  );
+}
 
-  return false;
+/**
+ * Compares a normalized target path with a literal intention path.
+ */
+export function matchesPath(
+  targetPath: string,
+  intentionPath: string,
+  mode: PathMatchMode
+): boolean {
+  switch (mode) {
+    case 'prefix':
+      return targetPath.startsWith(intentionPath);
+    case 'segment':
+      return (
+        targetPath === intentionPath ||
+        targetPath.startsWith(`${intentionPath}/`)
+      );
+    case 'exact':
+      return targetPath === intentionPath;
+  }
+}
+
+/**
+ * Checks if a target URL falls under one of an intention's exceptions.
+ * URL exceptions only apply on the same domain as the target.
+ */
+export function matchesAnyException(
+  target: ParsedTarget,
+  exceptions: IntentionScope[]
+): boolean {
+  return exceptions.some(
+    exception =>
+      (exception.kind === 'regex' ||
+        exception.domain ===
+          target.byHostMode[exception.hostMode]?.components.domain) &&
+      matchesParsedTarget(target, exception)
+  );
 }
 
+const HOST_MODES: HostMode[] = ['public', 'local-and-private'];
+
 /**
- * Fast lookup of matching intention using the domain index.
+ * Returns the URL scopes that may match a target: those stored along the
+ * target's host labels and path segments (with and without a language segment).
+ */
+function candidateScopes(
+  index: IntentionIndex,
+  target: ParsedTarget
+): IndexedScope<UrlIntentionScope>[] {
+  const candidates = new Set<IndexedScope<UrlIntentionScope>>();
+
+  for (const hostMode of HOST_MODES) {
+    const parsed = target.byHostMode[hostMode];
+    if (!parsed) continue;
+    const { domain, subdomain, path } = parsed.components;
+
+    const hostKeys = [
+      domain,
+      ...(subdomain ? subdomain.split('.').reverse() : []),
+    ];
+    const pathKeyVariants = [
+      pathSegments(path),
+      // Loose stripping finds the candidates of every language mode
+      pathSegments(extractLanguageFromPath(path, 'loose').remainingPath),
+    ];
+
+    // Skip the root: every scope is stored below its site name
+    for (const hostNode of nodesAlong(
+      index.byHostMode[hostMode],
+      hostKeys
+    ).slice(1)) {
+      const pathRoot = hostNode.children.get(PATH_MARKER);
+      if (!pathRoot) continue;
+      for (const pathKeys of pathKeyVariants) {
+        for (const node of nodesAlong(pathRoot, pathKeys)) {
+          node.values.forEach(entry => candidates.add(entry));
+        }
+      }
+    }
+  }
+
+  // Most specific first; ties keep the order intentions were defined in
+  return [...candidates].sort(
+    (a, b) => b.scope.urlLength - a.scope.urlLength || a.order - b.order
+  );
+}
+
+/**
+ * Fast lookup of the most specific matching intention using the index.
+ * The target is parsed once and only scopes along its trie path are checked.
+ * Regex scopes are only tried when no URL scope matches.
  */
 export function lookupIntention(
   targetUrl: string,
   intentionIndex: IntentionIndex
 ): Intention | null {
-  const targetScope = parseUrlToScope(targetUrl);
-  if (!targetScope) {
-    return null;
-  }
+  return findIntention(targetUrl, intentionIndex, () => true);
+}
 
-  const key = targetScope.domain; // Use just the domain, not domain + suffix
-  const intentions = intentionIndex.get(key);
+/**
+ * Like lookupIntention, but skips intentions whose schedule is not active
+ * at the given moment, so a broader intention can apply instead.
+ */
+export function lookupActiveIntention(
+  targetUrl: string,
+  intentionIndex: IntentionIndex,
+  now: Date
+): Intention | null {
+  return findIntention(targetUrl, intentionIndex, intention =>
+    isScheduleActive(intention.schedule, now)
+  );
+}
 
-  if (!intentions) {
-    return null;
-  }
+function findIntention(
+  targetUrl: string,
+  intentionIndex: IntentionIndex,
+  isEligible: (intention: Intention) => boolean
+): Intention | null {
+  const target = parseTarget(targetUrl);
 
-  // Find the first matching intention (already sorted by urlLength descending)
-  const match = intentions.find(({ scope }) =>
-    matchesIntentionScopeIgnoringDomain(targetUrl, scope)
-  );
+  const isMatch = ({
+    scope,
+    intention,
+  }: IndexedScope<IntentionScope>): boolean =>
+    isEligible(intention) &&
+    matchesParsedTarget(target, scope) &&
+    !matchesAnyException(target, intention.exceptions);
+
+  const match =
+    candidateScopes(intentionIndex, target).find(isMatch) ??
+    intentionIndex.regexScopes.find(isMatch);
 
   return match ? match.intention : null;
 }
 
+export interface ScopeExplanation {
+  intention: Intention;
+  scope: IntentionScope;
+  steps: MatchStepResult[]; // up to and including the first failing step
+  matched: boolean; // every step passed and no exception applies
+}
+
+export interface MatchExplanation {
+  targetUrl: string;
+  candidates: ScopeExplanation[]; // in the order lookupIntention tries them
+  winner: ScopeExplanation | null; // the first matching candidate
+}
+
+/**
+ * Explains which intention a target URL would get and why.
+ * Candidates are the scopes on the target's site name (plus regex scopes),
+ * each with the matching steps it passed or failed. The winner is the scope
+ * lookupActiveIntention would pick at `now`, or lookupIntention with null.
+ */
+export function explainMatch(
+  targetUrl: string,
+  intentions: Intention[],
+  now: Date | null
+): MatchExplanation {
+  const target = parseTarget(targetUrl);
+  const entries = intentions
+    .flatMap(intention =>
+      intentionScopes(intention).map(scope => ({ scope, intention }))
+    )
+    .map((entry, order) => ({ ...entry, order }));
+
+  const urlCandidates = entries
+    .filter(
+      ({ scope }) =>
+        scope.kind === 'url' &&
+        scope.domain === target.byHostMode[scope.hostMode]?.components.domain
+    )
+    .sort(
+      (a, b) =>
+        scopeUrlLength(b.scope) - scopeUrlLength(a.scope) || a.order - b.order
+    );
+  const regexCandidates = entries.filter(({ scope }) => scope.kind === 'regex');
+
+  const candidates = [...urlCandidates, ...regexCandidates].map(
+    ({ scope, intention }): ScopeExplanation => {
+      const steps = scopeMatchSteps(target, scope);
+      if (steps.every(step => step.passed) && now && intention.schedule) {
+        const active = isScheduleActive(intention.schedule, now);
+        steps.push({
+          step: 'schedule',
+          passed: active,
+          detail: active
+            ? `Within its schedule (${describeSchedule(intention.schedule)})`
+            : `Outside its schedule right now (${describeSchedule(intention.schedule)})`,
+        });
+      }
+      if (steps.every(step => step.passed) && intention.exceptions.length > 0) {
+        const exception = intention.exceptions.find(exception =>
+          matchesAnyException(target, [exception])
+        );
+        steps.push({
+          step: 'exception',
+          passed: !exception,
+          detail: exception
+            ? `Excluded by the exception ${exception.originalUrl}`
+            : 'None of the exceptions apply',
+        });
+      }
+      return {
+        intention,
+        scope,
+        steps,
+        matched: steps.every(step => step.passed),
+      };
+    }
+  );
+
+  return {
+    targetUrl,
+    candidates,
+    winner: candidates.find(candidate => candidate.matched) ?? null,
+  };
+}
+
+const scopeUrlLength = (scope: IntentionScope): number =>
+  scope.kind === 'url' ? scope.urlLength : 0;
+
 /**
  * Creates an empty IntentionScope with default values.
  */
-export function createEmptyIntentionScope(): IntentionScope {
+export function createEmptyIntentionScope(): UrlIntentionScope {
   return {
+    kind: 'url',
     domain: '',
     publicSuffix: '',
     subdomain: null,
+    port: null,
     path: '',
+    pathMatch: DEFAULT_PATH_MATCH_MODE,
+    languageMatch: DEFAULT_LANGUAGE_MATCH_MODE,
+    query: [],
+    hashRoute: null,
     urlLength: 0,
     hasLanguageSuffix: false,
     hasLanguageSubdomain: false,
     hasLanguagePathStart: false,
+    hostMode: DEFAULT_HOST_MODE,
     originalUrl: '',
   };
 }
@@ -383,11 +1262,18 @@ export function createEmptyIntentionScope(): IntentionScope {
 /**
  * Converts an IntentionScope to a display string.
  * tldts uses domain="registrableDomain" which includes the public suffix
+ * Internationalized hosts are shown in Unicode (bücher, not xn--bcher-kva).
  */
 export function viewScope(scope: IntentionScope): string {
+  if (scope.kind === 'regex') return scope.originalUrl.trim();
   if (!scope.domain) return '';
-  const hostname = scope.subdomain
-    ? `${scope.subdomain}.${scope.domain}`
-    : `${scope.domain}`;
-  return hostname + scope.path;
+  const hostname =
+    toUnicodeHostname(
+      scope.subdomain ? `${scope.subdomain}.${scope.domain}` : scope.domain
+    ) + (scope.port ? `:${scope.port}` : '');
+  const query = scope.query
+    .map(({ key, value }) => (value === null ? key : `${key}=${value}`))
+    .join('&');
+  const hash = scope.hashRoute === null ? '' : `#${scope.hashRoute}`;
+  return hostname + scope.path + (query ? `?${query}` : '') + hash;
 }
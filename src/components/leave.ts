@@ -0,0 +1,83 @@
+/**
+ * Leaving from the intention page instead of continuing.
+ *
+ * The "I don't need this" button hands the tab to the background worker,
+ * which sends it to the configured fallback and counts the visit as a
+ * successful redirection. A tab opened directly on a gated URL has no page
+ * to go back to, so it is closed, or turned into a new tab page when it is
+ * the last tab of its window.
+ */
+
+import type { IntentionScopeId } from './intention';
+import { toWebUrl } from './normalized-url';
+
+export type LeaveFallback =
+  | { kind: 'previous-page' }
+  | { kind: 'productive-url'; url: string }
+  | { kind: 'new-tab' }
+  | { kind: 'close-tab' };
+
+export const DEFAULT_LEAVE_FALLBACK: LeaveFallback = { kind: 'previous-page' };
+
+export type LeaveAction =
+  | { kind: 'navigate'; url: string }
+  | { kind: 'new-tab' }
+  | { kind: 'close-tab' };
+
+// Successful redirections per scope, kept on this browser
+export type RedirectionStats = Record<IntentionScopeId, number>;
+
+/**
+ * Sent by the intention page when the user leaves instead of continuing.
+ */
+export interface IntentionLeftMessage {
+  type: 'intention:left';
+  intentionScopeId: IntentionScopeId;
+}
+
+export function isIntentionLeftMessage(
+  message: unknown
+): message is IntentionLeftMessage {
+  const msg = message as Partial<IntentionLeftMessage> | null;
+  return (
+    msg?.type === 'intention:left' && typeof msg.intentionScopeId === 'string'
+  );
+}
+
+/**
+ * What leaving does to the tab.
+ * @param previousUrl - The page before the gated one, null when there was none
+ * @param isOnlyTab - Whether closing the tab would close its window
+ */
+export function leaveAction(
+  fallback: LeaveFallback,
+  previousUrl: string | null,
+  isOnlyTab: boolean
+): LeaveAction {
+  const closeTab: LeaveAction = isOnlyTab
+    ? { kind: 'new-tab' }
+    : { kind: 'close-tab' };
+  switch (fallback.kind) {
+    case 'previous-page':
+      return previousUrl ? { kind: 'navigate', url: previousUrl } : closeTab;
+    case 'productive-url': {
+      const url = toWebUrl(fallback.url);
+      return url ? { kind: 'navigate', url } : { kind: 'new-tab' };
+    }
+    case 'new-tab':
+      return { kind: 'new-tab' };
+    case 'close-tab':
+      return closeTab;
+  }
+}
+
+export function addRedirection(
+  stats: RedirectionStats,
+  scopeId: IntentionScopeId
+): RedirectionStats {
+  return { ...stats, [scopeId]: (stats[scopeId] ?? 0) + 1 };
+}
+
+export function totalRedirections(stats: RedirectionStats): number {
+  return Object.values(stats).reduce((sum, count) => sum + count, 0);
+}
@@ -5,10 +5,19 @@
 import normalizeUrlLib from 'normalize-url';
 import { parse } from 'tldts';
 import { Brand } from 'ts-brand';
+import { toAsciiHostname, toUnicodeHostname } from './idn';
 
 // Branded type for validated normalized URLs
 export type NormalizedUrl = Brand<string, 'NormalizedUrl'>;
 
+/**
+ * Which hosts a URL may have:
+ * - 'public': registrable domains under an ICANN suffix (e.g. reddit.com)
+ * - 'local-and-private': additionally IP addresses, single-label hosts
+ *   (localhost) and private suffixes, where `name.github.io` is its own site
+ */
+export type HostMode = 'public' | 'local-and-private';
+
 /**
  * Normalizes a URL object
  * - Strip protocol (http://, https://)
@@ -32,14 +41,46 @@ export function normalizeUrl(url: URL): NormalizedUrl {
 }
 
 /**
- * Converts a normalized URL into components for matching.
+ * Normalizes a URL object like normalizeUrl, but keeps the query string
+ * (sorted, every parameter kept, utm_* too) and the hash fragment.
+ * Used for intentions that ask for specific query parameters or hash routes.
+ * @param url - The parsed URL object to normalize
+ * @returns Normalized URL as NormalizedUrl
  */
-export function toComponents(normalizedUrl: NormalizedUrl): {
+export function normalizeUrlWithQueryAndHash(url: URL): NormalizedUrl {
+  const normalized = normalizeUrlLib(url.toString(), {
+    stripProtocol: true,
+    stripWWW: true,
+    sortQueryParameters: true,
+    removeQueryParameters: false,
+    stripHash: false,
+    removeTrailingSlash: true,
+    removeSingleSlash: true,
+  });
+
+  return normalized as NormalizedUrl;
+}
+
+export interface UrlComponents {
   domain: string;
   publicSuffix: string;
   subdomain: string | null;
+  port: string;
   path: string;
-} {
+  query: string;
+  hash: string;
+}
+
+/**
+ * Converts a normalized URL into components for matching.
+ * Query and hash are empty unless the URL was normalized with them kept.
+ * In 'local-and-private' mode, private suffixes count as public suffixes, and
+ * hosts without a site name (IPs, localhost) become the domain as a whole.
+ */
+export function toComponents(
+  normalizedUrl: NormalizedUrl,
+  hostMode: HostMode
+): UrlComponents {
   try {
     // Add protocol if missing for URL constructor
     const urlWithProtocol = normalizedUrl.startsWith('http')
@@ -48,20 +89,47 @@ export function toComponents(normalizedUrl: NormalizedUrl): {
 
     const parsedUrl = new URL(urlWithProtocol);
     const { domainWithoutSuffix, publicSuffix, subdomain } = parse(
-      parsedUrl.hostname
+      parsedUrl.hostname,
+      { allowPrivateDomains: hostMode === 'local-and-private' }
     );
+    const path = parsedUrl.pathname === '/' ? '' : parsedUrl.pathname;
+
+    if (hostMode === 'local-and-private' && !domainWithoutSuffix) {
+      return {
+        domain: parsedUrl.hostname,
+        publicSuffix: '',
+        subdomain: null,
+        port: parsedUrl.port,
+        path,
+        query: parsedUrl.search,
+        hash: parsedUrl.hash,
+      };
+    }
 
     return {
       domain: domainWithoutSuffix || '',
       publicSuffix: publicSuffix || '',
       subdomain: subdomain || null,
-      path: parsedUrl.pathname === '/' ? '' : parsedUrl.pathname,
+      port: parsedUrl.port,
+      path,
+      query: parsedUrl.search,
+      hash: parsedUrl.hash,
     };
   } catch {
     // Fallback to manual parsing for edge cases
-    const [hostAndPath, ...rest] = normalizedUrl.split('/');
+    const hashIndex = normalizedUrl.indexOf('#');
+    const hash = hashIndex === -1 ? '' : normalizedUrl.slice(hashIndex);
+    const withoutHash =
+      hashIndex === -1 ? normalizedUrl : normalizedUrl.slice(0, hashIndex);
+    const queryIndex = withoutHash.indexOf('?');
+    const query = queryIndex === -1 ? '' : withoutHash.slice(queryIndex);
+    const withoutQuery =
+      queryIndex === -1 ? withoutHash : withoutHash.slice(0, queryIndex);
+
+    const [hostAndPort, ...rest] = withoutQuery.split('/');
     const path = rest.length > 0 ? '/' + rest.join('/') : '';
 
+    const [hostAndPath, port = ''] = hostAndPort.split(':');
     const hostParts = hostAndPath.split('.');
 
     if (hostParts.length === 1) {
@@ -69,7 +137,10 @@ export function toComponents(normalizedUrl: NormalizedUrl): {
         domain: hostParts[0],
         publicSuffix: '',
         subdomain: null,
+        port,
         path,
+        query,
+        hash,
       };
     }
 
@@ -78,7 +149,10 @@ export function toComponents(normalizedUrl: NormalizedUrl): {
         domain: hostParts[0],
         publicSuffix: hostParts[1],
         subdomain: null,
+        port,
         path,
+        query,
+        hash,
       };
     }
 
@@ -90,7 +164,10 @@ export function toComponents(normalizedUrl: NormalizedUrl): {
       domain,
       publicSuffix,
       subdomain: subdomain || null,
+      port,
       path,
+      query,
+      hash,
     };
   }
 }
@@ -98,23 +175,82 @@ export function toComponents(normalizedUrl: NormalizedUrl): {
 /**
  * Parses a URL string and returns a URL object if valid.
  * Uses tldts for domain validation and parsing.
+ * In 'public' mode only ICANN domains are accepted; 'local-and-private' also
+ * accepts IP addresses, single-label hosts and private suffixes.
  */
-export function parseUrlString(input: string): URL | null {
+export function parseUrlString(input: string, hostMode: HostMode): URL | null {
   const trimmed = input.trim();
-  const parsed = parse(trimmed, { allowPrivateDomains: false });
-
-  if (!parsed.isIcann || !parsed.domain) return null;
 
   let urlStr = trimmed;
-  if (!/^[a-zA-Z][a-zA-Z\d+\-.]*:/.test(trimmed)) {
+  // "localhost:3000" has no protocol, so a protocol needs "//" after it
+  if (!/^[a-zA-Z][a-zA-Z\d+\-.]*:\/\//.test(trimmed)) {
     urlStr = 'https://' + trimmed;
   }
 
+  let url: URL;
+  try {
+    url = new URL(urlStr);
+  } catch {
+    return null;
+  }
+  if (!url.hostname) return null;
+
+  if (hostMode === 'local-and-private') {
+    // Only web pages; browser pages like chrome://extensions have hostnames too
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    const parsed = parse(url.hostname, { allowPrivateDomains: true });
+    return parsed.isIp || parsed.hostname ? url : null;
+  }
+
+  const parsed = parse(trimmed, { allowPrivateDomains: false });
+  if (!parsed.isIcann || !parsed.domain || !parsed.hostname) return null;
+  // URL hostnames are ASCII, so bücher.de is compared as xn--bcher-kva.de
+  if (url.hostname !== toAsciiHostname(parsed.hostname)) return null;
+  return url;
+}
+
+/**
+ * Turns a URL typed by the user into one a tab can be sent to
+ * - Add https:// when the protocol is missing, like in "todoist.com"
+ * - Only accept http and https URLs
+ * @param input - The URL as typed
+ * @returns The full URL, or null when it is not a web URL
+ */
+export function toWebUrl(input: string): string | null {
+  const trimmed = input.trim();
+  const url = /^[a-z][a-z\d+\-.]*:\/\//i.test(trimmed)
+    ? trimmed
+    : `https://${trimmed}`;
   try {
-    const url = new URL(urlStr);
-    if (!url.hostname || url.hostname !== parsed.hostname) return null;
-    return url;
+    const { protocol } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:' ? url : null;
   } catch {
     return null;
   }
 }
+
+/**
+ * A short name for the site of a URL, for display
+ * - Strip www and the public suffix, so bbc.co.uk becomes "bbc"
+ * - Keep other subdomains, like "news.ycombinator"
+ * - Keep hosts without a site name (IPs, localhost) whole
+ */
+export function siteName(url: URL): string {
+  const { domain, subdomain } = toComponents(normalizeUrl(url), 'public');
+  if (!domain) return url.hostname;
+  return toUnicodeHostname(subdomain ? `${subdomain}.${domain}` : domain);
+}
+
+/**
+ * The full address of a URL for display, without its protocol and with the
+ * host in Unicode, e.g. "bücher.de/suche?q=krimi#top".
+ */
+export function displayUrl(url: URL): string {
+  const path = url.pathname === '/' ? '' : url.pathname;
+  const address = toUnicodeHostname(url.host) + path + url.search + url.hash;
+  try {
+    return decodeURI(address);
+  } catch {
+    return address;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Pausing all intentions for a while.
+ *
+ * A pause is stored as the moment it ends. The background worker lets every
+ * navigation through until then, and an alarm clears the pause afterwards so
+ * it resumes even when the worker was suspended in between.
+ */
+
+import { parseTimeOfDay } from './schedule';
+import { minutesToMs, type Timestamp } from './time';
+
+export const PAUSE_ALARM_NAME = 'intender-resume-after-pause';
+
+// Pause lengths offered in the popup and settings
+export const PAUSE_OPTIONS_MINUTES = [15, 30, 60, 120];
+
+export type PauseChoice =
+  | { kind: 'minutes'; minutes: number }
+  | { kind: 'until'; time: string }; // "HH:MM", the next time it comes around
+
+/**
+ * Returns when a pause chosen at the given moment ends,
+ * or null when the chosen time is not valid.
+ */
+export function pauseEndsAt(choice: PauseChoice, now: Date): Timestamp | null {
+  if (choice.kind === 'minutes') {
+    return (now.getTime() + minutesToMs(choice.minutes)) as Timestamp;
+  }
+  const minutes = parseTimeOfDay(choice.time);
+  if (minutes === null) return null;
+  const end = new Date(now);
+  end.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  if (end.getTime() <= now.getTime()) {
+    end.setDate(end.getDate() + 1);
+  }
+  return end.getTime() as Timestamp;
+}
+
+export function isPaused(pausedUntil: Timestamp | null, now: Date): boolean {
+  return pausedUntil !== null && now.getTime() < pausedUntil;
+}
+
+/**
+ * Describes a pause, e.g. "Paused until 14:30" or "Paused until Tue 09:00".
+ */
+export function describePause(pausedUntil: Timestamp, now: Date): string {
+  const end = new Date(pausedUntil);
+  const time = end.toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const sameDay = end.toDateString() === now.toDateString();
+  const day = sameDay
+    ? ''
+    : `${end.toLocaleDateString([], { weekday: 'short' })} `;
+  return `Paused until ${day}${time}`;
+}
+
+export function pauseChoiceLabel(minutes: number): string {
+  if (minutes < 60) return `${minutes} minutes`;
+  return minutes === 60 ? '1 hour' : `${minutes / 60} hours`;
+}
@@ -0,0 +1,82 @@
+/**
+ * Several phrases per intention, shown in turn on the intention page.
+ *
+ * Typing the same sentence every time turns into muscle memory. An intention
+ * can hold more phrases besides its main one, and the intention page picks
+ * one of them at random, in order, or once per day. The pick holds for the
+ * whole visit, so reloading the page does not offer an easier phrase, and the
+ * order only moves on once the intention is completed.
+ */
+
+import type { RawIntention } from './intention';
+
+export type PhraseRotation = 'random' | 'sequential' | 'daily';
+
+export const DEFAULT_PHRASE_ROTATION: PhraseRotation = 'random';
+
+/**
+ * What the pick depends on besides the phrases themselves.
+ */
+export interface RotationInput {
+  random: number; // in [0, 1), e.g. Math.random()
+  timesCompleted: number; // how often the intention was completed before
+  day: string; // budget day, e.g. "2025-03-14"
+  intentionId: string; // so daily phrases do not change in lockstep
+}
+
+/**
+ * The main phrase followed by the additional ones, without empty phrases.
+ */
+export function intentionPhrases(raw: RawIntention): string[] {
+  return [raw.phrase, ...(raw.additionalPhrases ?? [])].filter(
+    phrase => phrase.trim() !== ''
+  );
+}
+
+export function pickPhrase(
+  phrases: string[],
+  rotation: PhraseRotation,
+  input: RotationInput
+): string {
+  if (phrases.length === 0) return '';
+  const index =
+    rotation === 'random'
+      ? Math.floor(input.random * phrases.length)
+      : rotation === 'sequential'
+        ? input.timesCompleted
+        : hashString(`${input.day}:${input.intentionId}`);
+  return phrases[index % phrases.length];
+}
+
+/**
+ * The phrase already picked for this visit, or null when there is none or it
+ * is no longer one of the intention's phrases.
+ */
+export function keptPhrase(
+  phrases: string[],
+  picked: string | null
+): string | null {
+  return picked !== null && phrases.includes(picked) ? picked : null;
+}
+
+// The phrase picked for the visit in progress, per intention id
+export type VisitPhrases = Record<string, string>;
+
+// Completions per intention id, which sequential rotation follows
+export type PhraseCounts = Record<string, number>;
+
+export function countCompletion(
+  counts: PhraseCounts,
+  intentionId: string
+): PhraseCounts {
+  return { ...counts, [intentionId]: (counts[intentionId] ?? 0) + 1 };
+}
+
+// Small, stable string hash (32-bit FNV-1a)
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,58 @@
+/**
+ * Reflection prompts on the intention page.
+ *
+ * Instead of copy-typing a phrase, an intention can ask a question such as
+ * "What are you here to do?". The free-form answer needs a minimum length and
+ * is kept with a timestamp, so answers can be looked back on in settings.
+ */
+
+import type { RawIntention } from './intention';
+import type { Timestamp } from './time';
+
+export type PromptMode = 'phrase' | 'reflection';
+
+export const DEFAULT_PROMPT_MODE: PromptMode = 'phrase';
+
+export const DEFAULT_REFLECTION_QUESTION = 'What are you here to do?';
+
+export const DEFAULT_REFLECTION_MIN_LENGTH = 20;
+
+// Oldest answers are dropped beyond this, to stay within storage quotas
+export const MAX_REFLECTION_ANSWERS = 1000;
+
+export interface ReflectionAnswer {
+  intentionId: string;
+  url: string; // the intention's URL when the answer was given
+  question: string;
+  answer: string;
+  answeredAt: Timestamp;
+}
+
+export interface ReflectionPrompt {
+  question: string;
+  minLength: number;
+}
+
+export function reflectionPrompt(raw: RawIntention): ReflectionPrompt {
+  return {
+    question: raw.reflectionQuestion?.trim() || DEFAULT_REFLECTION_QUESTION,
+    minLength: raw.reflectionMinLength ?? DEFAULT_REFLECTION_MIN_LENGTH,
+  };
+}
+
+/**
+ * Characters still missing before the answer is long enough.
+ */
+export function charactersMissing(answer: string, minLength: number): number {
+  return Math.max(0, minLength - answer.trim().length);
+}
+
+/**
+ * Adds an answer, keeping the newest MAX_REFLECTION_ANSWERS in order.
+ */
+export function addReflectionAnswer(
+  answers: ReflectionAnswer[],
+  answer: ReflectionAnswer
+): ReflectionAnswer[] {
+  return [...answers, answer].slice(-MAX_REFLECTION_ANSWERS);
+}
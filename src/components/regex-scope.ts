@@ -0,0 +1,170 @@
+/**
+ * Raw regular expression scopes for power users.
+ *
+ * A scope written between slashes, e.g. `/^https:\/\/(www\.)?amazon\.[a-z.]+\/gp\/video/`,
+ * is tested case-insensitively against the full target URL. Since JavaScript
+ * regexes cannot be interrupted, expressions that are prone to catastrophic
+ * backtracking are rejected up front.
+ */
+
+export const MAX_REGEX_LENGTH = 300;
+
+export type RegexParseResult =
+  | { kind: 'ok'; pattern: RegExp }
+  | { kind: 'error'; message: string };
+
+/**
+ * Checks if a scope string is written as a regular expression (`/.../`).
+ * URLs and wildcard patterns never start with a slash.
+ */
+export function isRegexScope(input: string): boolean {
+  const trimmed = input.trim();
+  return (
+    trimmed.length >= 2 && trimmed.startsWith('/') && trimmed.endsWith('/')
+  );
+}
+
+/**
+ * Parses a `/.../` scope into a case-insensitive RegExp,
+ * with a user-facing message when it is invalid or unsafe.
+ */
+export function parseRegexScope(input: string): RegexParseResult {
+  const source = input.trim().slice(1, -1);
+  if (source === '') {
+    return { kind: 'error', message: 'Enter a regular expression between / /' };
+  }
+
+  const safetyError = regexSafetyError(source);
+  if (safetyError) {
+    return { kind: 'error', message: safetyError };
+  }
+
+  try {
+    return { kind: 'ok', pattern: new RegExp(source, 'i') };
+  } catch (e) {
+    return {
+      kind: 'error',
+      message: `Invalid regular expression: ${e instanceof SyntaxError ? e.message : String(e)}`,
+    };
+  }
+}
+
+/**
+ * Returns a message if a regex source risks catastrophic backtracking, or null.
+ * Rejects overly long expressions, backreferences, nested repetition such as
+ * `(a+)+`, `(\w*\s?)*` or `(a?a?)+` (optional atoms count as repetition
+ * inside a repeated group), and repeated alternatives that can match the same
+ * text, such as `(a|aa)+`. These are the usual causes of exponential matching
+ * time. Repeated alternatives are only accepted when every branch starts with
+ * a different literal character, like `(foo|bar)+`.
+ */
+export function regexSafetyError(source: string): string | null {
+  if (source.length > MAX_REGEX_LENGTH) {
+    return `Keep regular expressions under ${MAX_REGEX_LENGTH} characters`;
+  }
+  if (/\\[1-9]|\\k</.test(source)) {
+    return 'Backreferences like \\1 are not supported';
+  }
+
+  // One entry per open group: whether a repeated element occurs inside it,
+  // and the first character of each branch (null when it is not one literal)
+  interface Group {
+    hasRepetition: boolean;
+    branchStarts: (string | null)[];
+    atBranchStart: boolean;
+  }
+  const openGroup = (): Group => ({
+    hasRepetition: false,
+    branchStarts: [],
+    atBranchStart: true,
+  });
+  const groups: Group[] = [openGroup()];
+  const currentGroup = () => groups[groups.length - 1];
+  let i = 0;
+
+  const repetitionAt = (position: number): number => {
+    const char = source[position];
+    if (char === '*' || char === '+') return 1;
+    if (char === '{') {
+      const match = source.slice(position).match(/^\{\d*,?\d*\}/);
+      return match ? match[0].length : 0;
+    }
+    return 0;
+  };
+
+  // Records how the current branch starts, given its first atom
+  const startBranch = (literal: string | null, atomEnd: number) => {
+    const group = currentGroup();
+    if (!group.atBranchStart) return;
+    group.atBranchStart = false;
+    const optional = /^(?:[?*]|\{0)/.test(source.slice(atomEnd));
+    group.branchStarts.push(optional ? null : literal);
+  };
+
+  const endBranch = () => {
+    const group = currentGroup();
+    if (group.atBranchStart) group.branchStarts.push(null);
+    group.atBranchStart = true;
+  };
+
+  const hasOverlappingBranches = (group: Group): boolean =>
+    group.branchStarts.length > 1 &&
+    (group.branchStarts.includes(null) ||
+      new Set(group.branchStarts).size < group.branchStarts.length);
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\\') {
+      const escaped = source[i + 1] ?? '';
+      startBranch(/^[a-z\d]$/i.test(escaped) ? null : escaped, i + 2);
+      i += 2;
+    } else if (char === '[') {
+      // Skip the character class, honouring escapes
+      i++;
+      while (i < source.length && source[i] !== ']') {
+        i += source[i] === '\\' ? 2 : 1;
+      }
+      i++;
+      startBranch(null, i);
+    } else if (char === '(') {
+      startBranch(null, i);
+      groups.push(openGroup());
+      i++;
+      if (source[i] === '?') {
+        // Skip group modifiers: ?: ?= ?! ?<= ?<! ?<name>
+        const modifier = source.slice(i).match(/^\?(?::|=|!|<=|<!|<[^>]+>)/);
+        i += modifier ? modifier[0].length : 1;
+      }
+    } else if (char === '|') {
+      endBranch();
+      i++;
+    } else if (char === ')') {
+      endBranch();
+      const group = groups.length > 1 ? groups.pop()! : groups[0];
+      i++;
+      const repetition = repetitionAt(i);
+      if (repetition > 0 && group.hasRepetition) {
+        return 'Nested repetition like (a+)+ can freeze the browser';
+      }
+      if (repetition > 0 && hasOverlappingBranches(group)) {
+        return 'Repeated alternatives that overlap, like (a|aa)+, can freeze the browser';
+      }
+      // An optional group repeats like a?, once its parent group repeats
+      const optional = repetition === 0 && source[i] === '?' ? 1 : 0;
+      i += repetition + optional;
+      if (group.hasRepetition || repetition > 0 || optional > 0) {
+        currentGroup().hasRepetition = true;
+      }
+    } else {
+      startBranch('.^$'.includes(char) ? null : char.toLowerCase(), i + 1);
+      const repetition = repetitionAt(i);
+      if (repetition > 0 || char === '?') {
+        currentGroup().hasRepetition = true;
+      }
+      i += Math.max(repetition, 1);
+    }
+  }
+
+  return null;
+}
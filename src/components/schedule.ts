@@ -0,0 +1,175 @@
+/**
+ * Time-of-day and weekday schedules for intentions.
+ *
+ * A schedule describes a weekly window: a set of weekdays with time ranges
+ * on them. An intention either applies only during that window (e.g. YouTube
+ * during working hours) or only outside of it (e.g. Slack after work).
+ * Without a schedule, an intention always applies.
+ */
+
+// 0 is Sunday, like Date.getDay()
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export type ScheduleMode = 'during' | 'outside';
+
+export interface TimeRange {
+  start: string; // "HH:MM", 24-hour
+  end: string; // "HH:MM"; at or before start, the range runs past midnight
+}
+
+export interface IntentionSchedule {
+  mode: ScheduleMode;
+  days: Weekday[];
+  ranges: TimeRange[]; // empty for the whole day
+  timeZone: string | null; // IANA time zone, null for the browser's own
+}
+
+export const WEEKDAYS: { day: Weekday; label: string }[] = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' },
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export function defaultSchedule(mode: ScheduleMode): IntentionSchedule {
+  return {
+    mode,
+    days: [1, 2, 3, 4, 5],
+    ranges: [{ start: '09:00', end: '17:00' }],
+    timeZone: null,
+  };
+}
+
+/**
+ * Parses "HH:MM" into minutes after midnight, or null when invalid.
+ */
+export function parseTimeOfDay(time: string): number | null {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Cleans up a schedule read from storage or an imported file.
+ * Unknown days, invalid ranges and unknown time zones are left out.
+ * Returns null when there is no usable schedule.
+ */
+export function parseSchedule(
+  schedule: IntentionSchedule | undefined
+): IntentionSchedule | null {
+  if (!schedule || !Array.isArray(schedule.days)) return null;
+  if (schedule.mode !== 'during' && schedule.mode !== 'outside') return null;
+  const days = WEEKDAYS.map(({ day }) => day).filter(day =>
+    schedule.days.includes(day)
+  );
+  const ranges = (Array.isArray(schedule.ranges) ? schedule.ranges : []).filter(
+    range =>
+      parseTimeOfDay(range.start) !== null && parseTimeOfDay(range.end) !== null
+  );
+  const timeZone =
+    typeof schedule.timeZone === 'string' && isValidTimeZone(schedule.timeZone)
+      ? schedule.timeZone
+      : null;
+  return { mode: schedule.mode, days, ranges, timeZone };
+}
+
+// Weekday and minutes after midnight of a moment in the given time zone
+function zonedTime(
+  now: Date,
+  timeZone: string | null
+): { day: Weekday; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timeZone ?? undefined,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(p => p.type === type)?.value ?? '';
+  const day = WEEKDAYS.find(({ label }) => label === part('weekday'))?.day ?? 0;
+  return {
+    day,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+function previousDay(day: Weekday): Weekday {
+  return ((day + 6) % 7) as Weekday;
+}
+
+function isInWindow(schedule: IntentionSchedule, now: Date): boolean {
+  const { day, minutes } = zonedTime(now, schedule.timeZone);
+  if (schedule.ranges.length === 0) return schedule.days.includes(day);
+
+  return schedule.ranges.some(range => {
+    const start = parseTimeOfDay(range.start) ?? 0;
+    const end = parseTimeOfDay(range.end) ?? MINUTES_PER_DAY;
+    if (start < end) {
+      return schedule.days.includes(day) && minutes >= start && minutes < end;
+    }
+    // Past midnight, the range still belongs to the day it started on
+    return (
+      (schedule.days.includes(day) && minutes >= start) ||
+      (schedule.days.includes(previousDay(day)) && minutes < end)
+    );
+  });
+}
+
+/**
+ * Whether an intention with this schedule applies at the given moment.
+ */
+export function isScheduleActive(
+  schedule: IntentionSchedule | null,
+  now: Date
+): boolean {
+  if (!schedule) return true;
+  const inWindow = isInWindow(schedule, now);
+  return schedule.mode === 'during' ? inWindow : !inWindow;
+}
+
+/**
+ * Describes a schedule, e.g. "during Mon–Fri 09:00–17:00".
+ */
+export function describeSchedule(schedule: IntentionSchedule): string {
+  const days = describeDays(schedule.days);
+  const times =
+    schedule.ranges.length === 0
+      ? 'all day'
+      : schedule.ranges.map(range => `${range.start}–${range.end}`).join(', ');
+  const zone = schedule.timeZone ? ` (${schedule.timeZone})` : '';
+  return `${schedule.mode} ${days} ${times}${zone}`;
+}
+
+function describeDays(days: Weekday[]): string {
+  const labels = WEEKDAYS.filter(({ day }) => days.includes(day)).map(
+    ({ label }) => label
+  );
+  if (labels.length === 0) return 'no days';
+  if (labels.length === WEEKDAYS.length) return 'every day';
+  // A run of consecutive days in Mon–Sun order, like Mon–Fri
+  const first = WEEKDAYS.findIndex(({ label }) => label === labels[0]);
+  const isRun = labels.every(
+    (label, i) => WEEKDAYS[first + i]?.label === label
+  );
+  return isRun && labels.length > 2
+    ? `${labels[0]}–${labels[labels.length - 1]}`
+    : labels.join(', ');
+}
@@ -0,0 +1,53 @@
+/**
+ * A minimal trie keyed by string segments (host labels, path segments).
+ * Values are stored at the node their key sequence ends at; lookups collect
+ * the values of every node along a key sequence.
+ */
+
+export interface SegmentTrie<T> {
+  values: T[];
+  children: Map<string, SegmentTrie<T>>;
+}
+
+export function createSegmentTrie<T>(): SegmentTrie<T> {
+  return { values: [], children: new Map() };
+}
+
+/**
+ * Stores a value at the node for the given key sequence, creating nodes as needed.
+ */
+export function insertIntoTrie<T>(
+  trie: SegmentTrie<T>,
+  keys: string[],
+  value: T
+): void {
+  let node = trie;
+  for (const key of keys) {
+    let child = node.children.get(key);
+    if (!child) {
+      child = createSegmentTrie();
+      node.children.set(key, child);
+    }
+    node = child;
+  }
+  node.values.push(value);
+}
+
+/**
+ * Returns the nodes along a key sequence, starting with the root and stopping
+ * at the first missing key.
+ */
+export function nodesAlong<T>(
+  trie: SegmentTrie<T>,
+  keys: string[]
+): SegmentTrie<T>[] {
+  const nodes = [trie];
+  let node = trie;
+  for (const key of keys) {
+    const child = node.children.get(key);
+    if (!child) break;
+    nodes.push(child);
+    node = child;
+  }
+  return nodes;
+}
@@ -0,0 +1,64 @@
+/**
+ * Snoozing a single intention for the rest of the day.
+ *
+ * Snoozing is a deliberate way past the intention page: it asks for a longer
+ * confirmation sentence than the intention itself. A snooze is stored per
+ * IntentionScopeId with the moment it ends, which is the next budget reset,
+ * so "today" means the same thing as it does for daily budgets.
+ */
+
+import { nextBudgetReset } from './budget';
+import type { IntentionScopeId } from './intention';
+import type { Timestamp } from './time';
+
+export const SNOOZE_CONFIRMATION =
+  'I am choosing to use this site without an intention for the rest of today';
+
+// When each snoozed scope wakes up again
+export type Snoozes = Record<IntentionScopeId, Timestamp>;
+
+export function snoozeEndsAt(now: Date, resetHour: number): Timestamp {
+  return nextBudgetReset(now, resetHour);
+}
+
+export function isSnoozed(
+  snoozes: Snoozes,
+  scopeId: IntentionScopeId,
+  now: Date
+): boolean {
+  const endsAt = snoozes[scopeId];
+  return endsAt !== undefined && now.getTime() < endsAt;
+}
+
+/**
+ * Returns the snoozes that have not ended yet.
+ */
+export function activeSnoozes(snoozes: Snoozes, now: Date): Snoozes {
+  return Object.fromEntries(
+    Object.entries(snoozes).filter(([, endsAt]) => now.getTime() < endsAt)
+  ) as Snoozes;
+}
+
+export function addSnooze(
+  snoozes: Snoozes,
+  scopeId: IntentionScopeId,
+  endsAt: Timestamp,
+  now: Date
+): Snoozes {
+  return { ...activeSnoozes(snoozes, now), [scopeId]: endsAt };
+}
+
+export function removeSnooze(
+  snoozes: Snoozes,
+  scopeId: IntentionScopeId
+): Snoozes {
+  const { [scopeId]: _removed, ...rest } = snoozes;
+  return rest as Snoozes;
+}
+
+/**
+ * The confirmation has to be typed out exactly, apart from surrounding spaces.
+ */
+export function isSnoozeConfirmed(input: string): boolean {
+  return input.trim() === SNOOZE_CONFIRMATION;
+}
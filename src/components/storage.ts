@@ -1,6 +1,26 @@
 import browser from 'webextension-polyfill';
+import { DEFAULT_BUDGET_RESET_HOUR, type BudgetUsage } from './budget';
+import {
+  DEFAULT_ESCALATION_POLICY,
+  type EscalationPolicy,
+  type RecentCompletions,
+} from './escalation';
+import {
+  NO_GUIDED_PAUSE,
+  type GuidedPause,
+  type GuidedPauses,
+} from './guided-pause';
+import { DEFAULT_FUZZY_TOLERANCE, type FuzzyTolerance } from './fuzzy-matching';
 import { RawIntention } from './intention';
-import type { TimeoutMs } from './time';
+import {
+  DEFAULT_LEAVE_FALLBACK,
+  type LeaveFallback,
+  type RedirectionStats,
+} from './leave';
+import type { PhraseCounts, VisitPhrases } from './phrase-rotation';
+import type { ReflectionAnswer } from './reflection';
+import type { Snoozes } from './snooze';
+import type { TimeoutMs, Timestamp } from './time';
 
 declare const __IS_DEV__: boolean;
 
@@ -13,6 +33,9 @@ export const storage = {
   async get(): Promise<{
     intentions: RawIntention[];
     fuzzyMatching?: boolean;
+    fuzzyTolerance?: FuzzyTolerance;
+    caseInsensitiveMatching?: boolean;
+    normalizedMatching?: boolean;
     inactivityMode?: InactivityMode;
     inactivityTimeoutMs?: TimeoutMs;
     showAdvancedSettings?: boolean;
@@ -20,10 +43,17 @@ export const storage = {
     breathAnimationIntensity?: BreathAnimationIntensity;
     directToSettings?: boolean;
     debugLogging?: boolean;
+    budgetResetHour?: number;
+    escalation?: EscalationPolicy;
+    guidedPause?: GuidedPause;
+    leaveFallback?: LeaveFallback;
   }> {
     const defaults = {
       intentions: [],
       fuzzyMatching: true,
+      fuzzyTolerance: DEFAULT_FUZZY_TOLERANCE,
+      caseInsensitiveMatching: false,
+      normalizedMatching: false,
       inactivityMode: 'off' as InactivityMode,
       inactivityTimeoutMs: (30 * 60 * 1000) as TimeoutMs,
       showAdvancedSettings: false,
@@ -31,6 +61,10 @@ export const storage = {
       breathAnimationIntensity: 'minimal' as BreathAnimationIntensity,
       directToSettings: false,
       debugLogging: false,
+      budgetResetHour: DEFAULT_BUDGET_RESET_HOUR,
+      escalation: DEFAULT_ESCALATION_POLICY,
+      guidedPause: NO_GUIDED_PAUSE,
+      leaveFallback: DEFAULT_LEAVE_FALLBACK,
     };
 
     const result = await backend.get(defaults);
@@ -43,6 +77,9 @@ export const storage = {
     data:
       | { intentions: RawIntention[] }
       | { fuzzyMatching: boolean }
+      | { fuzzyTolerance: FuzzyTolerance }
+      | { caseInsensitiveMatching: boolean }
+      | { normalizedMatching: boolean }
       | { inactivityMode: InactivityMode }
       | { inactivityTimeoutMs: TimeoutMs }
       | { showAdvancedSettings: boolean }
@@ -50,7 +87,120 @@ export const storage = {
       | { breathAnimationIntensity: BreathAnimationIntensity }
       | { directToSettings: boolean }
       | { debugLogging: boolean }
+      | { budgetResetHour: number }
+      | { escalation: EscalationPolicy }
+      | { guidedPause: GuidedPause }
+      | { leaveFallback: LeaveFallback }
   ) {
     await backend.set(data);
   },
 };
+
+// Budget usage changes every few seconds of browsing, so it stays on this
+// device instead of going through sync
+export const budgetUsageStore = {
+  async get(): Promise<BudgetUsage | null> {
+    const { budgetUsage } = await browser.storage.local.get('budgetUsage');
+    return (budgetUsage as BudgetUsage | undefined) ?? null;
+  },
+  async set(usage: BudgetUsage) {
+    await browser.storage.local.set({ budgetUsage: usage });
+  },
+};
+
+// A pause only applies to this browser, like the usage above
+export const pauseStore = {
+  async get(): Promise<Timestamp | null> {
+    const { pausedUntil } = await browser.storage.local.get('pausedUntil');
+    return (pausedUntil as Timestamp | undefined) ?? null;
+  },
+  async set(pausedUntil: Timestamp | null) {
+    await browser.storage.local.set({ pausedUntil });
+  },
+};
+
+// Snoozed intentions, on this browser only
+export const snoozeStore = {
+  async get(): Promise<Snoozes> {
+    const { snoozes } = await browser.storage.local.get('snoozes');
+    return (snoozes as Snoozes | undefined) ?? ({} as Snoozes);
+  },
+  async set(snoozes: Snoozes) {
+    await browser.storage.local.set({ snoozes });
+  },
+};
+
+// How often each intention was completed, for sequential phrases
+export const phraseCountStore = {
+  async get(): Promise<PhraseCounts> {
+    const { phraseCounts } = await browser.storage.local.get('phraseCounts');
+    return (phraseCounts as PhraseCounts | undefined) ?? {};
+  },
+  async set(phraseCounts: PhraseCounts) {
+    await browser.storage.local.set({ phraseCounts });
+  },
+};
+
+// Phrases picked for visits in progress, shared by all tabs until the browser closes
+export const visitPhraseStore = {
+  async get(): Promise<VisitPhrases> {
+    const { visitPhrases } = await browser.storage.session.get('visitPhrases');
+    return (visitPhrases as VisitPhrases | undefined) ?? {};
+  },
+  async set(visitPhrases: VisitPhrases) {
+    await browser.storage.session.set({ visitPhrases });
+  },
+};
+
+// Answers to reflection prompts, on this browser only
+export const reflectionStore = {
+  async get(): Promise<ReflectionAnswer[]> {
+    const { reflectionAnswers } =
+      await browser.storage.local.get('reflectionAnswers');
+    return (reflectionAnswers as ReflectionAnswer[] | undefined) ?? [];
+  },
+  async set(reflectionAnswers: ReflectionAnswer[]) {
+    await browser.storage.local.set({ reflectionAnswers });
+  },
+};
+
+// Recently completed intentions, for escalating friction on this browser
+export const completionStore = {
+  async get(): Promise<RecentCompletions> {
+    const { recentCompletions } =
+      await browser.storage.local.get('recentCompletions');
+    return (
+      (recentCompletions as RecentCompletions | undefined) ??
+      ({} as RecentCompletions)
+    );
+  },
+  async set(recentCompletions: RecentCompletions) {
+    await browser.storage.local.set({ recentCompletions });
+  },
+};
+
+// Guided pauses in progress, so reloading the intention page resumes them
+export const guidedPauseStore = {
+  async get(): Promise<GuidedPauses> {
+    const { guidedPauses } = await browser.storage.local.get('guidedPauses');
+    return (guidedPauses as GuidedPauses | undefined) ?? ({} as GuidedPauses);
+  },
+  async set(guidedPauses: GuidedPauses) {
+    await browser.storage.local.set({ guidedPauses });
+  },
+};
+
+// Visits that ended with leaving instead of continuing, on this browser only
+export const redirectionStatsStore = {
+  async get(): Promise<RedirectionStats> {
+    const { redirectionStats } =
+      await browser.storage.local.get('redirectionStats');
+    return (
+      (redirectionStats as RedirectionStats | undefined) ??
+      ({} as RedirectionStats)
+    );
+  },
+  async set(redirectionStats: RedirectionStats) {
+    await browser.storage.local.set({ redirectionStats });
+  },
+};
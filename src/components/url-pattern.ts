@@ -0,0 +1,251 @@
+/**
+ * Wildcard pattern syntax for intention URLs.
+ *
+ * Supported forms:
+ * - `*.reddit.com`  – any subdomain (including none) of reddit.com
+ * - `news.*`        – the site "news" on any public suffix
+ * - `reddit.com/r/*` – `*` matches exactly one path segment
+ * - `github.com/**` – `**` matches zero or more path segments
+ *
+ * The site name itself (the label before the public suffix) must stay literal,
+ * since intentions are indexed by it.
+ */
+
+import { parse } from 'tldts';
+import { toAsciiHostname } from './idn';
+import type { PathMatchMode } from './intention';
+import type { HostMode } from './normalized-url';
+
+export const WILDCARD = '*';
+export const GLOBSTAR = '**';
+export const ANY_SUFFIX = '*';
+
+export interface UrlPattern {
+  domain: string; // e.g. "reddit", always literal
+  publicSuffix: string; // e.g. "com", or ANY_SUFFIX
+  subdomain: string | null; // e.g. "*", "old", "*.eu" or null
+  port: string | null; // e.g. "3000", or null when not given
+  path: string; // e.g. "/r/*/comments", may be ""
+  hostMode: HostMode; // how targets must be parsed to compare with this pattern
+  literalLength: number; // length of the pattern without wildcard characters
+}
+
+export type UrlPatternParseResult =
+  | { kind: 'ok'; pattern: UrlPattern }
+  | { kind: 'error'; message: string };
+
+/**
+ * Checks if a URL string uses wildcard syntax.
+ */
+export function isUrlPattern(input: string): boolean {
+  return input.includes(WILDCARD);
+}
+
+/**
+ * Checks if a single scope part (subdomain, suffix or path) contains wildcards.
+ */
+export function hasWildcard(part: string | null): boolean {
+  return part !== null && part.includes(WILDCARD);
+}
+
+const error = (message: string): UrlPatternParseResult => ({
+  kind: 'error',
+  message,
+});
+
+/**
+ * Parses a wildcard URL pattern into its host and path parts.
+ * Query strings, hash fragments, protocols and www are ignored.
+ * In 'local-and-private' mode the site name may sit under a private suffix
+ * (e.g. *.me.github.io), and fully literal hosts like localhost are accepted.
+ */
+export function parseUrlPattern(
+  input: string,
+  hostMode: HostMode
+): UrlPatternParseResult {
+  const withoutProtocol = input
+    .trim()
+    .replace(/^[a-z][a-z\d+\-.]*:\/\//i, '')
+    .replace(/[?#].*$/, '');
+
+  // Hosts are case-insensitive, paths are compared as typed
+  const slashIndex = withoutProtocol.indexOf('/');
+  const hostAndPort = (
+    slashIndex === -1 ? withoutProtocol : withoutProtocol.slice(0, slashIndex)
+  ).toLowerCase();
+  const portMatch = hostAndPort.match(/:(\d+)$/);
+  const port = portMatch ? portMatch[1] : null;
+  const host = portMatch
+    ? hostAndPort.slice(0, -portMatch[0].length)
+    : hostAndPort;
+  const rawPath = slashIndex === -1 ? '' : withoutProtocol.slice(slashIndex);
+
+  // Unicode labels (bücher.de) are compared in their punycode form
+  const labels = host
+    .split('.')
+    .map(label =>
+      /[^\x00-\x7f]/.test(label) && !hasWildcard(label)
+        ? (toAsciiHostname(label) ?? label)
+        : label
+    );
+  if (labels.some(label => label === '')) {
+    return error('Enter a website like example.com');
+  }
+  if (labels.some(label => !/^[a-z0-9\-*]+$/.test(label))) {
+    return error('Website patterns may only contain letters, digits, - and *');
+  }
+  if (labels.some(label => label.includes(GLOBSTAR))) {
+    return error('** can only be used in the path');
+  }
+  if (labels[0] === 'www' && labels.length > 2) {
+    labels.shift();
+  }
+
+  let domain: string;
+  let publicSuffix: string;
+  let subdomainLabels: string[];
+  let patternHostMode: HostMode = 'public';
+
+  if (labels[labels.length - 1] === ANY_SUFFIX) {
+    if (labels.length < 2 || hasWildcard(labels[labels.length - 2])) {
+      return error('Keep the site name, e.g. news.* or *.example.com');
+    }
+    domain = labels[labels.length - 2];
+    publicSuffix = ANY_SUFFIX;
+    subdomainLabels = labels.slice(0, -2);
+  } else {
+    // The literal tail of the host decides the site name and public suffix
+    let tailStart = labels.length;
+    while (tailStart > 0 && !hasWildcard(labels[tailStart - 1])) {
+      tailStart--;
+    }
+    const tail = labels.slice(tailStart).join('.');
+    const privateParsed = parse(tail, { allowPrivateDomains: true });
+    const parsed = parse(tail, { allowPrivateDomains: false });
+    if (
+      hostMode === 'local-and-private' &&
+      privateParsed.domainWithoutSuffix &&
+      privateParsed.publicSuffix
+    ) {
+      // Private suffixes and unknown TLDs (e.g. me.github.io, wiki.internal)
+      domain = privateParsed.domainWithoutSuffix;
+      publicSuffix = privateParsed.publicSuffix;
+      subdomainLabels = [
+        ...labels.slice(0, tailStart),
+        ...(privateParsed.subdomain ? privateParsed.subdomain.split('.') : []),
+      ];
+      patternHostMode = 'local-and-private';
+    } else if (
+      parsed.isIcann &&
+      parsed.domainWithoutSuffix &&
+      parsed.publicSuffix
+    ) {
+      // Also covers *.github.io: any site under the private suffix
+      domain = parsed.domainWithoutSuffix;
+      publicSuffix = parsed.publicSuffix;
+      subdomainLabels = [
+        ...labels.slice(0, tailStart),
+        ...(parsed.subdomain ? parsed.subdomain.split('.') : []),
+      ];
+    } else if (hostMode === 'local-and-private' && tailStart === 0) {
+      // Fully literal host without a site name, e.g. localhost or an IP
+      domain = tail;
+      publicSuffix = '';
+      subdomainLabels = [];
+      patternHostMode = 'local-and-private';
+    } else {
+      return error('Keep the site name, e.g. news.* or *.example.com');
+    }
+  }
+
+  const segments = rawPath.split('/').filter(segment => segment !== '');
+  if (
+    segments.some(segment => segment.includes(GLOBSTAR) && segment !== GLOBSTAR)
+  ) {
+    return error('** must be a whole path segment, like /docs/**/edit');
+  }
+
+  const subdomain =
+    subdomainLabels.length > 0 ? subdomainLabels.join('.') : null;
+  const path = segments.length > 0 ? '/' + segments.join('/') : '';
+  const suffixPart =
+    publicSuffix === ANY_SUFFIX || publicSuffix === ''
+      ? ''
+      : `.${publicSuffix}`;
+  const portPart = port ? `:${port}` : '';
+  const normalized = `${subdomain ? subdomain + '.' : ''}${domain}${suffixPart}${portPart}${path}`;
+
+  return {
+    kind: 'ok',
+    pattern: {
+      domain,
+      publicSuffix,
+      subdomain,
+      port,
+      path,
+      hostMode: patternHostMode,
+      literalLength: normalized.replaceAll(WILDCARD, '').length,
+    },
+  };
+}
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+const compiledPatterns = new Map<string, RegExp>();
+
+function compileCached(key: string, build: () => string): RegExp {
+  let compiled = compiledPatterns.get(key);
+  if (!compiled) {
+    compiled = new RegExp(build());
+    compiledPatterns.set(key, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Matches a target subdomain against a subdomain pattern.
+ * A leading `*` label matches zero or more labels, any other `*` label matches
+ * exactly one label, and `*` inside a label matches any characters in it.
+ */
+export function matchesSubdomainPattern(
+  targetSubdomain: string | null,
+  subdomainPattern: string
+): boolean {
+  const regex = compileCached(`host:${subdomainPattern}`, () => {
+    const parts = subdomainPattern.split('.').map((label, i) => {
+      if (label === WILDCARD) {
+        return i === 0 ? '(?:[^.]+\\.)*' : '[^.]+\\.';
+      }
+      return escapeRegExp(label).replaceAll(WILDCARD, '[^.]*') + '\\.';
+    });
+    return `^${parts.join('')}$`;
+  });
+  return regex.test(targetSubdomain ? `${targetSubdomain}.` : '');
+}
+
+/**
+ * Matches a target path against a path pattern.
+ * `*` matches one segment, `**` zero or more segments. The mode decides what
+ * may follow the pattern: anything ('prefix'), deeper segments ('segment') or
+ * nothing ('exact').
+ */
+export function matchesPathPattern(
+  targetPath: string,
+  pathPattern: string,
+  mode: PathMatchMode
+): boolean {
+  const regex = compileCached(`path:${mode}:${pathPattern}`, () => {
+    const parts = pathPattern
+      .split('/')
+      .filter(segment => segment !== '')
+      .map(segment => {
+        if (segment === GLOBSTAR) return '(?:/[^/]+)*';
+        if (segment === WILDCARD) return '/[^/]+';
+        return '/' + escapeRegExp(segment).replaceAll(WILDCARD, '[^/]*');
+      });
+    const tail = { prefix: '.*', segment: '(?:/.*)?', exact: '' }[mode];
+    return `^${parts.join('')}${tail}$`;
+  });
+  return regex.test(targetPath);
+}
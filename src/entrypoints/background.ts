@@ -1,16 +1,75 @@
 import { Brand } from 'ts-brand';
 import browser from 'webextension-polyfill';
+import {
+  accessSessionAlarmName,
+  accessSessionAlarmScope,
+  accessSessionEndsAt,
+  isIntentionCompletedMessage,
+} from '../components/access-session';
+import {
+  addScopeUsage,
+  budgetDay,
+  dailyBudgetOf,
+  DEFAULT_BUDGET_RESET_HOUR,
+  emptyBudgetUsage,
+  isLimitReached,
+  msUntilTimeBudgetEnds,
+  NO_BUDGET,
+  scopeUsage,
+  TIME_BUDGET_ALARM_NAME,
+  usageForDay,
+  type BudgetLimit,
+  type BudgetUsage,
+  type DailyBudget,
+  type ScopeUsage,
+} from '../components/budget';
+import { addCompletion } from '../components/escalation';
 import { mapNulls } from '../components/helpers';
+import {
+  DEFAULT_INTENTION_ACTION,
+  intentionActionOf,
+  redirectUrlOf,
+  type IntentionAction,
+} from '../components/intention-action';
+import {
+  triggerForBlock,
+  type BlockReason,
+  type IntentionTrigger,
+} from '../components/intention-trigger';
+import {
+  addRedirection,
+  DEFAULT_LEAVE_FALLBACK,
+  isIntentionLeftMessage,
+  leaveAction,
+} from '../components/leave';
 import {
   createIntentionIndex,
   intentionToIntentionScopeId,
-  lookupIntention,
+  lookupActiveIntention,
   parseIntention,
+  type Intention,
   type IntentionIndex,
   type IntentionScopeId,
+  type RawIntention,
 } from '../components/intention';
+import { isPaused, PAUSE_ALARM_NAME } from '../components/pause';
+import { countCompletion } from '../components/phrase-rotation';
+import {
+  isScheduleActive,
+  type IntentionSchedule,
+} from '../components/schedule';
+import { isSnoozed, type Snoozes } from '../components/snooze';
 import { debugLog, setDebugLogging } from '../components/debugLogging';
-import { storage, type InactivityMode } from '../components/storage';
+import {
+  budgetUsageStore,
+  completionStore,
+  pauseStore,
+  phraseCountStore,
+  redirectionStatsStore,
+  snoozeStore,
+  storage,
+  type InactivityMode,
+} from '../components/storage';
 import {
   createTimestamp,
   minutesToMs,
@@ -40,12 +99,17 @@ function windowIdToNumber(id: WindowId): number {
   return id as unknown as number;
 }
 
+// Where a gated navigation goes instead: the redirect target of a redirect
+// action, otherwise the intention page, which also shows block messages
 const buildIntentionRedirectUrl = (
   targetUrl: string,
-  scopeId: IntentionScopeId
+  scopeId: IntentionScopeId,
+  action: IntentionAction,
+  trigger: IntentionTrigger
 ): string =>
+  (action.kind === 'redirect' ? redirectUrlOf(action) : null) ??
   browser.runtime.getURL(
-    `intention-page.html?target=${encodeURIComponent(targetUrl)}&intentionScopeId=${encodeURIComponent(scopeId)}`
+    `intention-page.html?target=${encodeURIComponent(targetUrl)}&intentionScopeId=${encodeURIComponent(scopeId)}&trigger=${trigger}`
   );
 
 // Tab URL cache to track last-known URLs for each tab
@@ -58,6 +122,12 @@ const lastActiveTabIdByWindow = new Map<WindowId, TabId>();
 // never -1, ignore non proper browser windows
 let lastFocusedWindowId: WindowId | null = null;
 const lastRedirectAtByTabId = new Map<TabId, Timestamp>();
+// Page each tab was on before it reached the intention page, for leaving
+const returnUrlByTabId = new Map<TabId, string>();
+// Timed access sessions: when each open scope goes back to the intention page
+const accessSessionEndsAtByScope = new Map<IntentionScopeId, Timestamp>();
+// Scope whose active time is being counted against its daily budget
+let activeClock: { scopeId: IntentionScopeId; since: Timestamp } | null = null;
 
 // Cross-browser shim for storage.session (Firefox compatibility)
 const sessionStore = chrome?.storage?.session ?? {
@@ -109,6 +179,9 @@ const persistSession = () => {
         lastFocusedWindowId: lastFocusedWindowId
           ? windowIdToNumber(lastFocusedWindowId)
           : null,
+        accessSessionEndsAtByScope: mapToObject(accessSessionEndsAtByScope),
+        activeClock,
+        returnUrlByTabId: mapToObject(returnUrlByTabId),
       })
       .catch(error => {
         console.log('[Intender] Session persist failed:', error);
@@ -134,6 +207,9 @@ chrome.runtime.onSuspend.addListener(() => {
       lastFocusedWindowId: lastFocusedWindowId
         ? windowIdToNumber(lastFocusedWindowId)
         : null,
+      accessSessionEndsAtByScope: mapToObject(accessSessionEndsAtByScope),
+      activeClock,
+      returnUrlByTabId: mapToObject(returnUrlByTabId),
     });
   } catch (e) {
     console.log('[Intender] onSuspend persist failed:', e);
@@ -148,6 +224,9 @@ const hydrateSessionState = async () => {
       'lastActiveByScope',
       'lastActiveTabIdByWindow',
       'lastFocusedWindowId',
+      'accessSessionEndsAtByScope',
+      'activeClock',
+      'returnUrlByTabId',
     ]);
 
     const urlMap = objectToMap<number, string>(
@@ -186,11 +265,54 @@ const hydrateSessionState = async () => {
       sessionValues.lastFocusedWindowId != null
         ? numberToWindowId(sessionValues.lastFocusedWindowId as number)
         : null;
+
+    const sessionEndMap = objectToMap<string, Timestamp>(
+      sessionValues.accessSessionEndsAtByScope as
+        | Record<string, Timestamp>
+        | undefined
+    );
+    for (const [key, value] of sessionEndMap) {
+      accessSessionEndsAtByScope.set(key as IntentionScopeId, value);
+    }
+
+    activeClock =
+      (sessionValues.activeClock as typeof activeClock | undefined) ?? null;
+
+    const returnUrlMap = objectToMap<number, string>(
+      sessionValues.returnUrlByTabId as Record<string, string> | undefined
+    );
+    for (const [key, value] of returnUrlMap) {
+      returnUrlByTabId.set(numberToTabId(key), value);
+    }
   } catch (error) {
     console.log('[Intender] Failed hydration from storage.session:', error);
   }
 };
 
+const dailyBudgetsByScope = (
+  intentions: RawIntention[]
+): Map<IntentionScopeId, DailyBudget> =>
+  new Map(
+    intentions.map(raw => [raw.id as IntentionScopeId, dailyBudgetOf(raw)])
+  );
+
+const actionsByScope = (
+  intentions: RawIntention[]
+): Map<IntentionScopeId, IntentionAction> =>
+  new Map(
+    intentions.map(raw => [raw.id as IntentionScopeId, intentionActionOf(raw)])
+  );
+
+const schedulesByScope = (
+  intentions: Intention[]
+): Map<IntentionScopeId, IntentionSchedule | null> =>
+  new Map(
+    intentions.map(intention => [
+      intentionToIntentionScopeId(intention),
+      intention.schedule,
+    ])
+  );
+
 const reconcileStateWithBrowser = async (
   intentionIndex: IntentionIndex,
   updateActivity?: (scopeId: IntentionScopeId) => void
@@ -210,7 +332,7 @@ const reconcileStateWithBrowser = async (
       }
 
       const matchedIntention = url
-        ? lookupIntention(url, intentionIndex)
+        ? lookupActiveIntention(url, intentionIndex, new Date())
         : null;
       const scope = matchedIntention
         ? intentionToIntentionScopeId(matchedIntention)
@@ -264,11 +386,17 @@ export default defineBackground(async () => {
   // Settings variables
   let inactivityMode: InactivityMode = 'off';
   let inactivityTimeoutMs: TimeoutMs = minutesToMs(30) as TimeoutMs;
+  let budgetResetHour = DEFAULT_BUDGET_RESET_HOUR;
+  let pausedUntil: Timestamp | null = null;
+  let snoozes = {} as Snoozes;
 
   console.log('[Intender] Background service worker started');
 
   // Cache data that won't change during session
   let intentionIndex: IntentionIndex = createIntentionIndex([]);
+  let dailyBudgetByScope = new Map<IntentionScopeId, DailyBudget>();
+  let actionByScope = new Map<IntentionScopeId, IntentionAction>();
+  let scheduleByScope = new Map<IntentionScopeId, IntentionSchedule | null>();
   const intentionPageUrl = browser.runtime.getURL('intention-page.html');
 
   // E2E: test control flag must be initialized before any calls that read it
@@ -306,23 +434,50 @@ export default defineBackground(async () => {
     persistSession();
   };
 
+  // Intentions outside their schedule do not gate navigation, and tabs are
+  // never mapped to them, so a broader intention in schedule takes over
+  const lookupScheduledIntention = (url: string) =>
+    lookupActiveIntention(url, intentionIndex, new Date());
+
   const lookupIntentionScopeId = (url: string): IntentionScopeId | null => {
-    const matchedIntention = lookupIntention(url, intentionIndex);
+    const matchedIntention = lookupScheduledIntention(url);
     if (!matchedIntention) return null;
     return intentionToIntentionScopeId(matchedIntention);
   };
 
+  const isScopeScheduledNow = (scopeId: IntentionScopeId): boolean =>
+    isScheduleActive(scheduleByScope.get(scopeId) ?? null, new Date());
+
+  const isPausedNow = (): boolean => isPaused(pausedUntil, new Date());
+
+  const isScopeSnoozed = (scopeId: IntentionScopeId): boolean =>
+    isSnoozed(snoozes, scopeId, new Date());
+
+  // The alarm survives worker suspension, unlike a timer
+  function applyPause(until: Timestamp | null): void {
+    pausedUntil = until;
+    if (until !== null && isPausedNow()) {
+      chrome.alarms.create(PAUSE_ALARM_NAME, { when: until });
+    } else {
+      chrome.alarms.clear(PAUSE_ALARM_NAME);
+    }
+    debugLog('[Intender] Pause changed:', { pausedUntil });
+  }
+
   // Unified navigation decision and short-lived cache (to keep decisions monotonic across hooks)
   type NavigationDecision =
     | {
         kind: 'allow';
         reason:
+          | 'paused'
+          | 'snoozed'
           | 'same-scope'
           | 'intention-completed'
           | 'active-tab-same-scope'
           | 'no-match';
       }
-    | { kind: 'block_redirect'; reason: 'matched-scope'; redirectTo: string };
+    | { kind: 'block_redirect'; reason: BlockReason; redirectTo: string }
+    | { kind: 'block_close'; reason: BlockReason };
 
   const NAV_DECISION_TTL_MS = 3000;
   const navDecisionCache = new Map<
@@ -384,6 +539,35 @@ export default defineBackground(async () => {
     }
   };
 
+  // The action of a scope. A redirect back into the same scope would loop,
+  // so it shows the intention page instead.
+  function actionFor(scopeId: IntentionScopeId): IntentionAction {
+    const action = actionByScope.get(scopeId) ?? DEFAULT_INTENTION_ACTION;
+    if (action.kind === 'redirect') {
+      const url = redirectUrlOf(action);
+      if (url === null || lookupIntentionScopeId(url) === scopeId) {
+        return DEFAULT_INTENTION_ACTION;
+      }
+    }
+    return action;
+  }
+
+  function blockNavigation(
+    targetUrl: string,
+    scopeId: IntentionScopeId,
+    reason: BlockReason
+  ): NavigationDecision {
+    const action = actionFor(scopeId);
+    if (action.kind === 'close-tab') return { kind: 'block_close', reason };
+    const redirectTo = buildIntentionRedirectUrl(
+      targetUrl,
+      scopeId,
+      action,
+      triggerForBlock(reason)
+    );
+    return { kind: 'block_redirect', reason, redirectTo };
+  }
+
   function decideNavigation(args: {
     tabId: number;
     sourceUrl: string | null;
@@ -395,9 +579,42 @@ export default defineBackground(async () => {
       args;
     const { isNavigationTabActive, activeTabUrl } = getActiveTabSnapshot(tabId);
 
-    // Same-scope allow
+    if (isPausedNow()) {
+      return { kind: 'allow', reason: 'paused' };
+    }
+
+    // Same-scope allow, unless the scope's access session has run out
     const sourceScope = sourceUrl ? lookupIntentionScopeId(sourceUrl) : null;
-    const targetScope = lookupIntentionScopeId(targetUrl);
+    const targetIntention = lookupScheduledIntention(targetUrl);
+    const targetScope = targetIntention
+      ? intentionToIntentionScopeId(targetIntention)
+      : null;
+    if (targetScope && isScopeSnoozed(targetScope)) {
+      return { kind: 'allow', reason: 'snoozed' };
+    }
+    if (
+      targetScope &&
+      isAccessSessionOver(targetScope) &&
+      !cameFromIntentionPage
+    ) {
+      return blockNavigation(targetUrl, targetScope, 'session-ended');
+    }
+    if (
+      targetScope &&
+      isBudgetLimitReached(targetScope, 'minutes') &&
+      !cameFromIntentionPage
+    ) {
+      return blockNavigation(targetUrl, targetScope, 'budget-exhausted');
+    }
+    // A new visit needs a visit left; tabs already in the scope keep going
+    if (
+      targetScope &&
+      sourceScope !== targetScope &&
+      isBudgetLimitReached(targetScope, 'visits') &&
+      !cameFromIntentionPage
+    ) {
+      return blockNavigation(targetUrl, targetScope, 'budget-exhausted');
+    }
     if (sourceScope && targetScope && sourceScope === targetScope) {
       return { kind: 'allow', reason: 'same-scope' };
     }
@@ -409,6 +626,9 @@ export default defineBackground(async () => {
         tu.searchParams.get('intention_completed_53c5890') === 'true' &&
         cameFromIntentionPage
       ) {
+        if (targetScope && overBudgetTabIds.delete(numberToTabId(tabId))) {
+          return blockNavigation(targetUrl, targetScope, 'budget-exhausted');
+        }
         return { kind: 'allow', reason: 'intention-completed' };
       }
     } catch (error) {
@@ -433,22 +653,15 @@ export default defineBackground(async () => {
 
     // Post-commit enforcement for server/client redirects into a scoped target
     if (postCommit) {
-      const matched =
-        targetScope != null ? lookupIntention(targetUrl, intentionIndex) : null;
-      if (matched && !cameFromIntentionPage) {
-        const toScope = intentionToIntentionScopeId(matched);
-        const redirectTo = buildIntentionRedirectUrl(targetUrl, toScope);
-        return { kind: 'block_redirect', reason: 'matched-scope', redirectTo };
+      if (targetScope && !cameFromIntentionPage) {
+        return blockNavigation(targetUrl, targetScope, 'matched-scope');
       }
     }
 
     // Before-navigate: block when target matches a configured intention
     if (!postCommit) {
-      const matched = lookupIntention(targetUrl, intentionIndex);
-      if (matched) {
-        const toScope = intentionToIntentionScopeId(matched);
-        const redirectTo = buildIntentionRedirectUrl(targetUrl, toScope);
-        return { kind: 'block_redirect', reason: 'matched-scope', redirectTo };
+      if (targetScope) {
+        return blockNavigation(targetUrl, targetScope, 'matched-scope');
       }
     }
 
@@ -519,7 +732,7 @@ export default defineBackground(async () => {
     scopeId: IntentionScopeId | null,
     timeoutMs: TimeoutMs
   ): Promise<boolean> {
-    if (mode === 'off' || !scopeId) return false;
+    if (mode === 'off' || !scopeId || isPausedNow()) return false;
 
     // Check audio exemption for all-except-audio mode
     if (mode === 'all-except-audio' && (await isScopeAudible(scopeId))) {
@@ -552,8 +765,28 @@ export default defineBackground(async () => {
   async function redirectToIntentionPage(
     tabId: TabId,
     targetUrl: string,
-    toScope: IntentionScopeId
+    toScope: IntentionScopeId,
+    trigger: IntentionTrigger
   ): Promise<boolean> {
+    if (isPausedNow()) {
+      debugLog('[Intender] Paused, skipping redirect:', { tabId, toScope });
+      return false;
+    }
+    if (isScopeSnoozed(toScope)) {
+      debugLog('[Intender] Scope snoozed, skipping redirect:', {
+        tabId,
+        toScope,
+      });
+      return false;
+    }
+    if (!isScopeScheduledNow(toScope)) {
+      debugLog('[Intender] Scope outside its schedule, skipping redirect:', {
+        tabId,
+        toScope,
+      });
+      return false;
+    }
+
     const REDIRECT_COOLDOWN_MS = 500;
     const now = createTimestamp();
     const lastRedirect = lastRedirectAtByTabId.get(tabId);
@@ -569,11 +802,26 @@ export default defineBackground(async () => {
       return false;
     }
 
-    const redirectUrl = buildIntentionRedirectUrl(targetUrl, toScope);
+    const action = actionFor(toScope);
+    const redirectUrl = buildIntentionRedirectUrl(
+      targetUrl,
+      toScope,
+      action,
+      trigger
+    );
 
     try {
+      if (action.kind === 'close-tab') {
+        await browser.tabs.remove(tabIdToNumber(tabId));
+        debugLog('[Intender] Closed tab instead of intention page:', {
+          tabId,
+          toScope,
+        });
+        return true;
+      }
       await browser.tabs.update(tabId, { url: redirectUrl });
       lastRedirectAtByTabId.set(tabId, now);
+      rememberReturnUrl(tabId, null);
       debugLog('[Intender] Redirected to intention page:', {
         tabId,
         targetUrl,
@@ -586,6 +834,244 @@ export default defineBackground(async () => {
     }
   }
 
+  // The page a tab was on before its intention page is where "I don't need
+  // this" returns to. Without one, like for a tab opened directly on a gated
+  // URL, leaving falls back to closing the tab.
+  function rememberReturnUrl(tabId: TabId, url: string | null): void {
+    if (url?.startsWith(intentionPageUrl)) return;
+    if (url) {
+      returnUrlByTabId.set(tabId, url);
+    } else {
+      returnUrlByTabId.delete(tabId);
+    }
+    persistSession();
+  }
+
+  // "I don't need this": counts a successful redirection and sends the tab
+  // to the configured fallback
+  async function leaveIntentionPage(
+    scopeId: IntentionScopeId,
+    tab: browser.Tabs.Tab | undefined
+  ): Promise<void> {
+    redirectionStatsStore
+      .get()
+      .then(stats => redirectionStatsStore.set(addRedirection(stats, scopeId)))
+      .catch(error => {
+        console.log('[Intender] Redirection stats persist failed:', error);
+      });
+    if (tab?.id === undefined) return;
+
+    const tabId = numberToTabId(tab.id);
+    const { leaveFallback = DEFAULT_LEAVE_FALLBACK } = await storage.get();
+    const windowTabs = await browser.tabs.query({ windowId: tab.windowId });
+    const action = leaveAction(
+      leaveFallback,
+      returnUrlByTabId.get(tabId) ?? null,
+      windowTabs.length <= 1
+    );
+    returnUrlByTabId.delete(tabId);
+    persistSession();
+    debugLog('[Intender] Leaving intention page:', { tabId, scopeId, action });
+
+    try {
+      if (action.kind === 'navigate') {
+        try {
+          await browser.tabs.update(tab.id, { url: action.url });
+          return;
+        } catch (error) {
+          // e.g. about:newtab, which Firefox does not let extensions open
+          debugLog('[Intender] Cannot return, opening a new tab:', error);
+        }
+      }
+      if (action.kind === 'close-tab') {
+        await browser.tabs.remove(tab.id);
+        return;
+      }
+      // Not every browser lets extensions navigate to its new tab page,
+      // so a fresh tab takes this one's place instead
+      await browser.tabs.create({
+        windowId: tab.windowId,
+        index: tab.index,
+        active: true,
+      });
+      await browser.tabs.remove(tab.id);
+    } catch (error) {
+      debugLog('[Intender] Failed to leave intention page:', error);
+    }
+  }
+
+  // Timed access sessions end by alarm, one per open scope. After a restart,
+  // sessions are rescheduled from sessionStore.
+  function isAccessSessionOver(scopeId: IntentionScopeId): boolean {
+    const endsAt = accessSessionEndsAtByScope.get(scopeId);
+    return endsAt !== undefined && createTimestamp() >= endsAt;
+  }
+
+  function scheduleAccessSessionEnd(scopeId: IntentionScopeId): void {
+    const alarmName = accessSessionAlarmName(scopeId);
+    const endsAt = accessSessionEndsAtByScope.get(scopeId);
+    if (endsAt === undefined) {
+      chrome.alarms.clear(alarmName);
+      return;
+    }
+    chrome.alarms.create(alarmName, { when: endsAt });
+  }
+
+  function startAccessSession(
+    scopeId: IntentionScopeId,
+    sessionMinutes: number | null
+  ): void {
+    if (sessionMinutes === null) {
+      accessSessionEndsAtByScope.delete(scopeId);
+    } else {
+      accessSessionEndsAtByScope.set(
+        scopeId,
+        accessSessionEndsAt(createTimestamp(), sessionMinutes)
+      );
+    }
+    debugLog('[Intender] Access session started:', {
+      scopeId,
+      sessionMinutes,
+    });
+    scheduleAccessSessionEnd(scopeId);
+    persistSession();
+  }
+
+  // Sends every tab of the scope back to the intention page
+  async function endAccessSession(scopeId: IntentionScopeId): Promise<void> {
+    if (!isAccessSessionOver(scopeId)) return;
+    accessSessionEndsAtByScope.delete(scopeId);
+    persistSession();
+
+    debugLog('[Intender] Access session ended:', { scopeId });
+    await sendScopeToIntentionPage(scopeId, 'session-ended');
+  }
+
+  // Sends every tab of the scope back to the intention page
+  async function sendScopeToIntentionPage(
+    scopeId: IntentionScopeId,
+    trigger: IntentionTrigger
+  ): Promise<void> {
+    for (const [tabId, tabScope] of intentionScopePerTabId) {
+      if (tabScope !== scopeId) continue;
+      const url = tabUrlMap.get(tabId);
+      if (!url || url.startsWith(intentionPageUrl)) continue;
+      await redirectToIntentionPage(tabId, url, scopeId, trigger);
+    }
+  }
+
+  // Daily budgets: visits are counted on completion, active time while a tab
+  // of the scope is the active tab of the focused window. Usage is kept in
+  // memory and written to local storage on every change.
+  let budgetUsage: BudgetUsage = emptyBudgetUsage('');
+  // Tabs whose completion came in after the last visit was used up
+  const overBudgetTabIds = new Set<TabId>();
+
+  function currentBudgetUsage(): BudgetUsage {
+    budgetUsage = usageForDay(
+      budgetUsage,
+      budgetDay(new Date(), budgetResetHour)
+    );
+    return budgetUsage;
+  }
+
+  function dailyBudgetFor(scopeId: IntentionScopeId): DailyBudget {
+    return dailyBudgetByScope.get(scopeId) ?? NO_BUDGET;
+  }
+
+  function isBudgetLimitReached(
+    scopeId: IntentionScopeId,
+    limit: BudgetLimit
+  ): boolean {
+    return isLimitReached(
+      dailyBudgetFor(scopeId),
+      scopeUsage(currentBudgetUsage(), scopeId),
+      limit
+    );
+  }
+
+  function recordBudgetUsage(
+    scopeId: IntentionScopeId,
+    added: ScopeUsage
+  ): void {
+    budgetUsage = addScopeUsage(currentBudgetUsage(), scopeId, added);
+    budgetUsageStore.set(budgetUsage).catch(error => {
+      console.log('[Intender] Budget usage persist failed:', error);
+    });
+  }
+
+  // Remembers the completion for escalating friction on later visits
+  function recordCompletion(scopeId: IntentionScopeId): void {
+    completionStore
+      .get()
+      .then(completions =>
+        completionStore.set(addCompletion(completions, scopeId, new Date()))
+      )
+      .catch(error => {
+        console.log('[Intender] Completion persist failed:', error);
+      });
+  }
+
+  // Sequential phrases move on once per completion, not per page load
+  function recordPhraseCompletion(scopeId: IntentionScopeId): void {
+    phraseCountStore
+      .get()
+      .then(counts => phraseCountStore.set(countCompletion(counts, scopeId)))
+      .catch(error => {
+        console.log('[Intender] Phrase rotation persist failed:', error);
+      });
+  }
+
+  // Adds the time counted so far and keeps counting for the given scope.
+  // The cutoff is an alarm, so it also fires after the worker was suspended.
+  function restartActiveClock(scopeId: IntentionScopeId | null): void {
+    const now = createTimestamp();
+    if (activeClock) {
+      recordBudgetUsage(activeClock.scopeId, {
+        visits: 0,
+        activeMs: now - activeClock.since,
+      });
+    }
+    activeClock = scopeId ? { scopeId, since: now } : null;
+    persistSession();
+
+    const msLeft = scopeId
+      ? msUntilTimeBudgetEnds(
+          dailyBudgetFor(scopeId),
+          scopeUsage(currentBudgetUsage(), scopeId)
+        )
+      : null;
+    if (msLeft === null) {
+      chrome.alarms.clear(TIME_BUDGET_ALARM_NAME);
+      return;
+    }
+    chrome.alarms.create(TIME_BUDGET_ALARM_NAME, { when: now + msLeft });
+  }
+
+  // Counts time for the active tab of the focused window, and sends the
+  // scope back to the intention page once its time budget is used up
+  async function updateActiveClock(): Promise<void> {
+    const activeTabId =
+      lastFocusedWindowId !== null
+        ? lastActiveTabIdByWindow.get(lastFocusedWindowId)
+        : undefined;
+    const activeUrl =
+      activeTabId !== undefined ? tabUrlMap.get(activeTabId) : undefined;
+    const scopeId =
+      activeTabId !== undefined &&
+      activeUrl !== undefined &&
+      !activeUrl.startsWith(intentionPageUrl)
+        ? getScopeForTab(activeTabId, activeUrl)
+        : null;
+    restartActiveClock(scopeId);
+
+    if (scopeId && isBudgetLimitReached(scopeId, 'minutes')) {
+      debugLog('[Intender] Daily time budget used up:', { scopeId });
+      restartActiveClock(null);
+      await sendScopeToIntentionPage(scopeId, 'budget-exhausted');
+    }
+  }
+
   // Unified focus handling with same-scope fast path
   async function handleFocusChange({
     fromTabId,
@@ -601,6 +1087,7 @@ export default defineBackground(async () => {
     // Update tracking
     lastActiveTabIdByWindow.set(windowId, toTabId);
     persistSession();
+    await updateActiveClock();
 
     // Compute scopes for both tabs
     const fromScope = fromTabId ? getScopeForTab(fromTabId) : null;
@@ -652,7 +1139,12 @@ export default defineBackground(async () => {
       debugLog('[Intender] Triggering inactivity redirect for scope:', toScope);
 
       if (resolvedUrl && toScope) {
-        await redirectToIntentionPage(toTabId, resolvedUrl, toScope);
+        await redirectToIntentionPage(
+          toTabId,
+          resolvedUrl,
+          toScope,
+          'inactivity'
+        );
       }
     } else if (toScope) {
       // No redirect needed, just update activity
@@ -680,9 +1172,16 @@ export default defineBackground(async () => {
   async function inactivityChange(
     newState: chrome.idle.IdleState
   ): Promise<void> {
+    // Idle time does not count against daily budgets
+    if (newState === 'active') {
+      await updateActiveClock();
+      return;
+    }
+    restartActiveClock(null);
+
     if (newState === 'idle') {
       try {
-        if (inactivityMode === 'off') return;
+        if (inactivityMode === 'off' || isPausedNow()) return;
 
         // Cold window guard - wait for intentionIndex to be ready
         await ensureReady();
@@ -726,7 +1225,12 @@ export default defineBackground(async () => {
         }
 
         // Redirect to intention page
-        await redirectToIntentionPage(tabId, url, intentionScopeId);
+        await redirectToIntentionPage(
+          tabId,
+          url,
+          intentionScopeId,
+          'inactivity'
+        );
       } catch (error) {
         debugLog('[Intender] Inactivity check failed:', error);
       }
@@ -797,7 +1301,11 @@ export default defineBackground(async () => {
   });
 
   // Update cache when navigation is committed (reliable source of truth)
-  browser.webNavigation.onCommitted.addListener(async details => {
+  async function handleCommittedNavigation(details: {
+    tabId: number;
+    frameId: number;
+    url: string;
+  }): Promise<void> {
     // Only track main frame navigation
     if (details.frameId !== 0) {
       return;
@@ -831,9 +1339,19 @@ export default defineBackground(async () => {
       });
     if (!cached) writeCachedDecision(details.tabId, details.url, decision);
 
+    if (decision.kind === 'block_close') {
+      try {
+        await browser.tabs.remove(details.tabId);
+      } catch {
+        debugLog('[Intender] Tab removal failed (tab likely gone)');
+      }
+      return;
+    }
+
     if (decision.kind === 'block_redirect') {
       try {
         await browser.tabs.update(details.tabId, { url: decision.redirectTo });
+        rememberReturnUrl(tabId, priorUrl);
         return;
       } catch (e) {
         debugLog('[Intender] Post-commit redirect failed, closing tab:', e);
@@ -848,7 +1366,7 @@ export default defineBackground(async () => {
     }
 
     // Align scope mapping
-    const matched = lookupIntention(details.url, intentionIndex);
+    const matched = lookupScheduledIntention(details.url);
     if (matched) {
       const scopeId = intentionToIntentionScopeId(matched);
       intentionScopePerTabId.set(tabId, scopeId);
@@ -872,7 +1390,18 @@ export default defineBackground(async () => {
         persistSession();
       }
     }
-  });
+    await updateActiveClock();
+  }
+
+  browser.webNavigation.onCommitted.addListener(handleCommittedNavigation);
+  // In-page navigations (pushState, hash changes) can enter scopes that
+  // require query parameters or hash routes without a full page load
+  browser.webNavigation.onHistoryStateUpdated.addListener(
+    handleCommittedNavigation
+  );
+  browser.webNavigation.onReferenceFragmentUpdated.addListener(
+    handleCommittedNavigation
+  );
 
   // Clean up cache when tabs are removed
   browser.tabs.onRemoved.addListener(tabId => {
@@ -882,6 +1411,8 @@ export default defineBackground(async () => {
     tabUrlMap.delete(tId);
     intentionScopePerTabId.delete(tId);
     lastRedirectAtByTabId.delete(tId);
+    returnUrlByTabId.delete(tId);
+    overBudgetTabIds.delete(tId);
     persistSession();
 
     debugLog('[Intender] Tab removed, cleared cache:', { tabId });
@@ -905,6 +1436,12 @@ export default defineBackground(async () => {
       intentionScopePerTabId.delete(removed);
     }
 
+    const returnUrl = returnUrlByTabId.get(removed);
+    if (returnUrl) {
+      returnUrlByTabId.set(added, returnUrl);
+      returnUrlByTabId.delete(removed);
+    }
+
     lastRedirectAtByTabId.delete(removed);
     persistSession();
 
@@ -947,8 +1484,11 @@ export default defineBackground(async () => {
       );
     } catch {}
 
-    // If windowId === -1 (no window focused), return early
-    if (windowId === -1) return;
+    // If windowId === -1 (no window focused), stop counting and return early
+    if (windowId === -1) {
+      restartActiveClock(null);
+      return;
+    }
 
     // Do not skip duplicate window focus events. We still resolve the active
     // tab and run focus handling to guarantee inactivity checks run reliably
@@ -1095,8 +1635,17 @@ export default defineBackground(async () => {
 
       if (decision.kind === 'allow') return;
 
+      if (decision.kind === 'block_close') {
+        try {
+          await browser.tabs.remove(details.tabId);
+        } catch {
+          debugLog('[Intender] Tab removal failed (tab likely gone)');
+        }
+        return;
+      }
+
       // Track scope and redirect
-      const matched = lookupIntention(targetUrl, intentionIndex);
+      const matched = lookupScheduledIntention(targetUrl);
       if (!matched) {
         debugLog(
           '[Intender] Race: intention removed between decision and redirect'
@@ -1110,6 +1659,7 @@ export default defineBackground(async () => {
           numberToTabId(details.tabId),
           targetIntentionScopeId
         );
+        rememberReturnUrl(numberToTabId(details.tabId), sourceUrl);
         persistSession();
       } catch (error) {
         debugLog('[Intender] Pre-commit redirect failed, closing tab:', error);
@@ -1131,9 +1681,31 @@ export default defineBackground(async () => {
     // @ts-ignore - webextension-polyfill types are too strict; returning true|void is valid
     async (
       message: unknown,
-      _sender: unknown,
+      sender: browser.Runtime.MessageSender,
       sendResponse: (response: unknown) => void
     ) => {
+      if (isIntentionLeftMessage(message)) {
+        await leaveIntentionPage(message.intentionScopeId, sender.tab);
+        return;
+      }
+
+      if (isIntentionCompletedMessage(message)) {
+        if (isBudgetLimitReached(message.intentionScopeId, 'visits')) {
+          debugLog('[Intender] No visits left, completion refused:', {
+            scopeId: message.intentionScopeId,
+          });
+          if (sender.tab?.id !== undefined) {
+            overBudgetTabIds.add(numberToTabId(sender.tab.id));
+          }
+          return;
+        }
+        recordBudgetUsage(message.intentionScopeId, { visits: 1, activeMs: 0 });
+        recordCompletion(message.intentionScopeId);
+        recordPhraseCompletion(message.intentionScopeId);
+        startAccessSession(message.intentionScopeId, message.sessionMinutes);
+        return;
+      }
+
       const msg = message as { type?: string } | null | undefined;
       if (!msg || typeof msg.type !== 'string') return;
 
@@ -1153,14 +1725,44 @@ export default defineBackground(async () => {
     }
   ) as unknown as Parameters<typeof browser.runtime.onMessage.addListener>[0];
 
+  chrome.alarms.onAlarm.addListener(async alarm => {
+    const sessionScope = accessSessionAlarmScope(alarm.name);
+    if (sessionScope) {
+      await ensureReady();
+      await endAccessSession(sessionScope);
+      return;
+    }
+    if (alarm.name === TIME_BUDGET_ALARM_NAME) {
+      await ensureReady();
+      await updateActiveClock();
+      return;
+    }
+    if (alarm.name !== PAUSE_ALARM_NAME) return;
+    debugLog('[Intender] Pause over, resuming');
+    pauseStore.set(null).catch(error => {
+      console.log('[Intender] Failed to clear pause:', error);
+    });
+  });
+
   // Refresh cached intentions and inactivity settings when storage changes
   browser.storage.onChanged.addListener(async changes => {
     try {
+      if (changes.pausedUntil) {
+        applyPause((changes.pausedUntil.newValue as Timestamp | null) ?? null);
+      }
+      if (changes.snoozes) {
+        snoozes =
+          (changes.snoozes.newValue as Snoozes | undefined) ?? ({} as Snoozes);
+      }
+
       // Intentions updated → rebuild index
       if (changes.intentions) {
         const { intentions } = await storage.get();
         const parsedIntentions = mapNulls(parseIntention, intentions);
         intentionIndex = createIntentionIndex(parsedIntentions);
+        dailyBudgetByScope = dailyBudgetsByScope(intentions);
+        actionByScope = actionsByScope(intentions);
+        scheduleByScope = schedulesByScope(parsedIntentions);
 
         // Refresh tab → scope mappings and bump activity for newly scoped tabs
         try {
@@ -1215,6 +1817,11 @@ export default defineBackground(async () => {
         toggleIdleDetection(inactivityMode);
       }
 
+      if (changes.budgetResetHour) {
+        const { budgetResetHour: newBudgetResetHour } = await storage.get();
+        budgetResetHour = newBudgetResetHour ?? budgetResetHour;
+      }
+
       // Debug logging updated (controls both console and storage logging)
       if (changes.debugLogging) {
         const { debugLogging: newDebugLogging } = await storage.get();
@@ -1267,9 +1874,21 @@ export default defineBackground(async () => {
       inactivityMode: storedInactivityMode = 'off',
       inactivityTimeoutMs: storedInactivityTimeoutMs = minutesToMs(30),
       debugLogging: storedDebugLogging = false,
+      budgetResetHour: storedBudgetResetHour = DEFAULT_BUDGET_RESET_HOUR,
     } = await storage.get();
     const parsedIntentions = mapNulls(parseIntention, intentions);
     intentionIndex = createIntentionIndex(parsedIntentions);
+    dailyBudgetByScope = dailyBudgetsByScope(intentions);
+    actionByScope = actionsByScope(intentions);
+    scheduleByScope = schedulesByScope(parsedIntentions);
+    budgetResetHour = storedBudgetResetHour;
+    budgetUsage = (await budgetUsageStore.get()) ?? budgetUsage;
+    applyPause(await pauseStore.get());
+    snoozes = await snoozeStore.get();
+    // A pause that ended while the browser was closed is cleared right away
+    if (pausedUntil !== null && !isPausedNow()) {
+      await pauseStore.set(null);
+    }
     intentionIndexReady = true;
 
     inactivityMode = storedInactivityMode as InactivityMode;
@@ -1283,6 +1902,14 @@ export default defineBackground(async () => {
       intentionIndex,
       updateIntentionScopeActivity
     );
+
+    // Sessions that ended while the worker was stopped end right away
+    for (const scopeId of accessSessionEndsAtByScope.keys()) {
+      scheduleAccessSessionEnd(scopeId);
+    }
+
+    // Time counted before the worker stopped is added now
+    await updateActiveClock();
   } catch (error) {
     console.error('[Intender] Failed to load intentions on startup:', error);
   }
@@ -1,6 +1,96 @@
 import '@theme';
-import { fuzzyMatch, fuzzyPartialMatch } from '../../components/fuzzy-matching';
-import { storage } from '../../components/storage';
+import browser from 'webextension-polyfill';
+import {
+  SESSION_LENGTH_OPTIONS_MINUTES,
+  sessionLengthLabel,
+  type IntentionCompletedMessage,
+} from '../../components/access-session';
+import {
+  budgetDay,
+  budgetStatus,
+  dailyBudgetOf,
+  DEFAULT_BUDGET_RESET_HOUR,
+  describeUsage,
+  emptyBudgetUsage,
+  nextBudgetReset,
+  scopeUsage,
+  usageForDay,
+} from '../../components/budget';
+import {
+  DEFAULT_ESCALATION_POLICY,
+  escalatedPhrase,
+  escalationFor,
+  escalationWindowLabel,
+  recentCompletionCount,
+  type Escalation,
+  type EscalationPolicy,
+} from '../../components/escalation';
+import {
+  DEFAULT_FUZZY_TOLERANCE,
+  EXACT_TOLERANCE,
+  matchesPhrase,
+  matchesPhrasePrefix,
+  type PhraseMatchOptions,
+} from '../../components/fuzzy-matching';
+import {
+  BREATH_CYCLE_MS,
+  breathPhase,
+  breathPhaseLabel,
+  describeRemaining,
+  effectivePause,
+  finishPause,
+  guidedPauseMs,
+  NO_GUIDED_PAUSE,
+  resumeOrStartPause,
+  type GuidedPause,
+  type GuidedPauses,
+  type OngoingPause,
+} from '../../components/guided-pause';
+import {
+  explainMatch,
+  intentionScopes,
+  parseIntention,
+  viewScope,
+  type IntentionScopeId,
+  type RawIntention,
+} from '../../components/intention';
+import { blockMessageOf } from '../../components/intention-action';
+import {
+  describeIntentionTrigger,
+  parseIntentionTrigger,
+} from '../../components/intention-trigger';
+import {
+  DEFAULT_PHRASE_ROTATION,
+  intentionPhrases,
+  keptPhrase,
+  pickPhrase,
+  type VisitPhrases,
+} from '../../components/phrase-rotation';
+import type { IntentionLeftMessage } from '../../components/leave';
+import { displayUrl, siteName } from '../../components/normalized-url';
+import {
+  addReflectionAnswer,
+  charactersMissing,
+  DEFAULT_PROMPT_MODE,
+  reflectionPrompt,
+} from '../../components/reflection';
+import {
+  addSnooze,
+  isSnoozeConfirmed,
+  snoozeEndsAt,
+  SNOOZE_CONFIRMATION,
+} from '../../components/snooze';
+import {
+  budgetUsageStore,
+  completionStore,
+  guidedPauseStore,
+  visitPhraseStore,
+  phraseCountStore,
+  reflectionStore,
+  snoozeStore,
+  storage,
+} from '../../components/storage';
+import type { Timestamp } from '../../components/time';
 
 // Particles animation setup
 const canvas = document.getElementById('particles-canvas') as HTMLCanvasElement;
@@ -138,47 +228,475 @@ requestAnimationFrame(() => {
 const query = new URLSearchParams(window.location.search);
 const target = query.get('target');
 const intentionId = query.get('intentionScopeId');
+const trigger = parseIntentionTrigger(query.get('trigger'));
 
 const phraseDisplayEl = document.getElementById(
   'phrase-display'
 ) as HTMLElement;
 const urlDisplayEl = document.getElementById('url-display') as HTMLElement;
+const targetUrlEl = document.getElementById('target-url') as HTMLElement;
+const triggerEl = document.getElementById('trigger') as HTMLElement;
+const matchedScopeEl = document.getElementById('matched-scope') as HTMLElement;
+const subheadlineEl = document.getElementById('subheadline') as HTMLElement;
 const inputEl = document.getElementById('phrase') as HTMLTextAreaElement;
 const buttonEl = document.getElementById('go') as HTMLButtonElement;
+const leaveEl = document.getElementById('leave') as HTMLButtonElement;
 const helperTextEl = document.getElementById('helper-text') as HTMLElement;
+const sessionLengthEl = document.getElementById(
+  'session-length'
+) as HTMLSelectElement;
+const budgetStatusEl = document.getElementById('budget-status') as HTMLElement;
+const guidedPauseEl = document.getElementById('guided-pause') as HTMLElement;
+const escalationStatusEl = document.getElementById(
+  'escalation-status'
+) as HTMLElement;
+const snoozeToggleEl = document.getElementById(
+  'snooze-toggle'
+) as HTMLButtonElement;
+const snoozePanelEl = document.getElementById('snooze-panel') as HTMLElement;
+const snoozeUntilEl = document.getElementById('snooze-until') as HTMLElement;
+const snoozeSentenceEl = document.getElementById(
+  'snooze-sentence'
+) as HTMLElement;
+const snoozeInputEl = document.getElementById(
+  'snooze-input'
+) as HTMLTextAreaElement;
+const snoozeConfirmEl = document.getElementById(
+  'snooze-confirm'
+) as HTMLButtonElement;
 
 let expectedPhrase = '';
 
-// Display the target URL
+// Countdowns currently holding the input disabled
+type InputLock = 'escalation' | 'guided-pause';
+const inputLocks = new Set<InputLock>();
+
+function lockInput(lock: InputLock): void {
+  inputLocks.add(lock);
+  inputEl.disabled = true;
+}
+
+// The input unlocks once every countdown holding it has finished
+function unlockInput(lock: InputLock): void {
+  inputLocks.delete(lock);
+  if (
+    inputLocks.size > 0 ||
+    phraseDisplayEl.parentElement?.classList.contains('budget-exhausted')
+  ) {
+    return;
+  }
+  inputEl.disabled = false;
+  inputEl.focus();
+}
+
+// Fills the session length choices, preselecting the intention's own length
+function setUpSessionLength(sessionMinutes: number | null): void {
+  const choices: (number | null)[] = [null, ...SESSION_LENGTH_OPTIONS_MINUTES];
+  if (sessionMinutes !== null && !choices.includes(sessionMinutes)) {
+    choices.push(sessionMinutes);
+  }
+  for (const minutes of choices) {
+    const option = document.createElement('option');
+    option.value = minutes === null ? '' : String(minutes);
+    option.textContent = sessionLengthLabel(minutes);
+    option.selected = minutes === sessionMinutes;
+    sessionLengthEl.append(option);
+  }
+}
+
+// Shows today's usage, or replaces the form once the budget is used up
+async function showBudget(
+  intention: RawIntention,
+  resetHour: number
+): Promise<void> {
+  const budget = dailyBudgetOf(intention);
+  const now = new Date();
+  const usage = scopeUsage(
+    usageForDay(
+      (await budgetUsageStore.get()) ?? emptyBudgetUsage(''),
+      budgetDay(now, resetHour)
+    ),
+    intention.id as IntentionScopeId
+  );
+  const status = budgetStatus(budget, usage);
+  if (status.kind === 'unlimited') return;
+
+  budgetStatusEl.classList.add('visible');
+  if (status.kind === 'within') {
+    budgetStatusEl.textContent = `Today: ${describeUsage(budget, usage)}`;
+    return;
+  }
+
+  const resetTime = new Date(
+    nextBudgetReset(now, resetHour)
+  ).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  const used = status.limit === 'visits' ? "today's visits" : "today's time";
+  budgetStatusEl.textContent = `You've used ${used} for this site. Your budget resets at ${resetTime}.`;
+  budgetStatusEl.parentElement?.classList.add('budget-exhausted');
+  inputEl.disabled = true;
+  buttonEl.disabled = true;
+}
+
+// Completions of this intention within the escalation window
+async function countRecentCompletions(
+  intention: RawIntention,
+  policy: EscalationPolicy
+): Promise<number> {
+  try {
+    return recentCompletionCount(
+      await completionStore.get(),
+      intention.id as IntentionScopeId,
+      policy.windowMinutes,
+      new Date()
+    );
+  } catch (error) {
+    console.error('Failed to read recent completions:', error);
+    return 0;
+  }
+}
+
+// Repeated visits get a note, and possibly a countdown before typing
+function showEscalation(
+  escalation: Escalation,
+  recentCount: number,
+  windowMinutes: number
+): void {
+  if (escalation.level === 0) return;
+  escalationStatusEl.classList.add('visible');
+  const visit = `This is visit ${recentCount + 1} within ${escalationWindowLabel(windowMinutes)}.`;
+  escalationStatusEl.textContent = visit;
+  if (escalation.countdownSeconds === 0) return;
+
+  lockInput('escalation');
+  let secondsLeft = escalation.countdownSeconds;
+  const tick = () => {
+    if (secondsLeft > 0) {
+      escalationStatusEl.textContent = `${visit} Take a moment, you can type in ${secondsLeft}s.`;
+      secondsLeft--;
+      setTimeout(tick, 1000);
+      return;
+    }
+    escalationStatusEl.textContent = visit;
+    unlockInput('escalation');
+  };
+  tick();
+}
+
+// Holds the input for a guided pause that survives reloads. Returns how far
+// into a breath cycle the pause is, to line the breathe animation up with it.
+async function startGuidedPause(pause: GuidedPause): Promise<number> {
+  const durationMs = guidedPauseMs(pause);
+  if (durationMs === 0) return 0;
+  const scopeId = intentionId as IntentionScopeId;
+  let ongoing: OngoingPause;
+  try {
+    const pauses = await guidedPauseStore.get();
+    ongoing = resumeOrStartPause(pauses, scopeId, durationMs, new Date());
+    await guidedPauseStore.set({ ...pauses, [scopeId]: ongoing });
+  } catch (error) {
+    console.error('Failed to keep guided pause:', error);
+    ongoing = resumeOrStartPause(
+      {} as GuidedPauses,
+      scopeId,
+      durationMs,
+      new Date()
+    );
+  }
+
+  lockInput('guided-pause');
+  guidedPauseEl.classList.add('visible');
+  const tick = () => {
+    const now = Date.now();
+    const msLeft = ongoing.endsAt - now;
+    if (msLeft <= 0) {
+      guidedPauseEl.classList.remove('visible');
+      unlockInput('guided-pause');
+      return;
+    }
+    const phase = breathPhaseLabel(breathPhase(now - ongoing.startedAt));
+    guidedPauseEl.textContent = `${phase} · ${describeRemaining(pause, msLeft)}`;
+    setTimeout(tick, 250);
+  };
+  tick();
+  return (Date.now() - ongoing.startedAt) % BREATH_CYCLE_MS;
+}
+
+// A completed or snoozed visit starts the next one with a fresh pause
+async function finishGuidedPause(): Promise<void> {
+  try {
+    const pauses = await guidedPauseStore.get();
+    if (intentionId && intentionId in pauses) {
+      await guidedPauseStore.set(
+        finishPause(pauses, intentionId as IntentionScopeId)
+      );
+    }
+  } catch (error) {
+    console.error('Failed to finish guided pause:', error);
+  }
+}
+
+// Picks the phrase to type this time; sequential rotation moves on each visit
+async function choosePhrase(
+  intention: RawIntention,
+  resetHour: number
+): Promise<string> {
+  const rotation = intention.phraseRotation ?? DEFAULT_PHRASE_ROTATION;
+  const phrases = intentionPhrases(intention);
+  let visitPhrases: VisitPhrases = {};
+  try {
+    visitPhrases = await visitPhraseStore.get();
+  } catch (error) {
+    console.error('Failed to read the phrase of this visit:', error);
+  }
+  const kept = keptPhrase(phrases, visitPhrases[intention.id] ?? null);
+  if (kept !== null) return kept;
+
+  let timesCompleted = 0;
+  if (rotation === 'sequential') {
+    try {
+      timesCompleted = (await phraseCountStore.get())[intention.id] ?? 0;
+    } catch (error) {
+      console.error('Failed to read phrase rotation:', error);
+    }
+  }
+  const phrase = pickPhrase(phrases, rotation, {
+    random: Math.random(),
+    timesCompleted,
+    day: budgetDay(new Date(), resetHour),
+    intentionId: intention.id,
+  });
+  try {
+    await visitPhraseStore.set({ ...visitPhrases, [intention.id]: phrase });
+  } catch (error) {
+    console.error('Failed to keep the phrase of this visit:', error);
+  }
+  return phrase;
+}
+
+// A completed or left visit picks a new phrase next time, in every tab
+async function forgetVisitPhrase(): Promise<void> {
+  try {
+    const visitPhrases = await visitPhraseStore.get();
+    if (intentionId && intentionId in visitPhrases) {
+      const { [intentionId]: _forgotten, ...rest } = visitPhrases;
+      await visitPhraseStore.set(rest);
+    }
+  } catch (error) {
+    console.error('Failed to forget the phrase of this visit:', error);
+  }
+}
+
+// A blocking intention shows its message; the only way on is leaving
+function showBlocked(message: string): void {
+  phraseDisplayEl.parentElement?.classList.add('blocked');
+  subheadlineEl.textContent = 'you decided:';
+  phraseDisplayEl.textContent = message;
+  phraseDisplayEl.className = 'phrase-display grey';
+  inputEl.disabled = true;
+  buttonEl.disabled = true;
+}
+
+// Reflection mode asks a question instead; the answer is kept for settings
+function setUpReflection(intention: RawIntention): void {
+  const { question, minLength } = reflectionPrompt(intention);
+  phraseDisplayEl.parentElement?.classList.add('reflecting');
+  subheadlineEl.textContent = 'answer for yourself:';
+  phraseDisplayEl.textContent = question;
+
+  const isLongEnough = () => charactersMissing(inputEl.value, minLength) === 0;
+
+  const submit = async () => {
+    if (!isLongEnough()) return;
+    try {
+      await reflectionStore.set(
+        addReflectionAnswer(await reflectionStore.get(), {
+          intentionId: intention.id,
+          url: intention.url,
+          question,
+          answer: inputEl.value.trim(),
+          answeredAt: Date.now() as Timestamp,
+        })
+      );
+    } catch (error) {
+      console.error('Failed to save reflection:', error);
+    }
+    await continueToTarget();
+  };
+
+  inputEl.addEventListener('input', () => {
+    const missing = charactersMissing(inputEl.value, minLength);
+    buttonEl.disabled = missing > 0;
+    helperTextEl.textContent =
+      missing === 1 ? '1 more character' : `${missing} more characters`;
+    helperTextEl.classList.toggle(
+      'visible',
+      inputEl.value !== '' && missing > 0
+    );
+  });
+
+  // Enter submits, Shift+Enter starts a new line
+  inputEl.addEventListener('keydown', e => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      void submit();
+    }
+  });
+
+  buttonEl.onclick = () => {
+    if (buttonEl.disabled || !isLongEnough()) return;
+    const container = document.querySelector('.container') as HTMLElement;
+    container.classList.add('clicking');
+    setTimeout(() => void submit(), 200);
+  };
+
+  inputEl.focus();
+}
+
+// Starts the access session in the background, then continues to the target
+async function continueToTarget(): Promise<void> {
+  const message: IntentionCompletedMessage = {
+    type: 'intention:completed',
+    intentionScopeId: intentionId as IntentionScopeId,
+    sessionMinutes: sessionLengthEl.value
+      ? Number(sessionLengthEl.value)
+      : null,
+  };
+  try {
+    await browser.runtime.sendMessage(message);
+  } catch (error) {
+    console.error('Failed to start access session:', error);
+  }
+  await forgetVisitPhrase();
+  await navigateToTarget();
+}
+
+async function navigateToTarget(): Promise<void> {
+  await finishGuidedPause();
+  const targetUrl = new URL(target!);
+  targetUrl.searchParams.set('intention_completed_53c5890', 'true');
+  window.location.href = targetUrl.toString();
+}
+
+// Leaving goes through the background worker, which knows the previous page
+async function leave(): Promise<void> {
+  leaveEl.disabled = true;
+  await finishGuidedPause();
+  const message: IntentionLeftMessage = {
+    type: 'intention:left',
+    intentionScopeId: intentionId as IntentionScopeId,
+  };
+  await forgetVisitPhrase();
+  try {
+    await browser.runtime.sendMessage(message);
+  } catch (error) {
+    console.error('Failed to leave intention page:', error);
+    leaveEl.disabled = false;
+  }
+}
+
+if (intentionId) {
+  leaveEl.addEventListener('click', () => void leave());
+} else {
+  leaveEl.disabled = true;
+}
+
+// Snoozing asks for a longer sentence that cannot be pasted
+function setUpSnooze(resetHour: number): void {
+  const endsAt = snoozeEndsAt(new Date(), resetHour);
+  snoozeUntilEl.textContent = new Date(endsAt).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  snoozeSentenceEl.textContent = SNOOZE_CONFIRMATION;
+  snoozeSentenceEl.addEventListener('copy', e => e.preventDefault());
+  snoozeInputEl.addEventListener('paste', e => e.preventDefault());
+
+  snoozeToggleEl.addEventListener('click', () => {
+    snoozePanelEl.parentElement?.classList.add('snoozing');
+    snoozeInputEl.focus();
+  });
+  snoozeInputEl.addEventListener('input', () => {
+    snoozeConfirmEl.disabled = !isSnoozeConfirmed(snoozeInputEl.value);
+  });
+  snoozeConfirmEl.addEventListener('click', async () => {
+    if (!isSnoozeConfirmed(snoozeInputEl.value)) return;
+    const now = new Date();
+    try {
+      await snoozeStore.set(
+        addSnooze(
+          await snoozeStore.get(),
+          intentionId as IntentionScopeId,
+          endsAt,
+          now
+        )
+      );
+    } catch (error) {
+      console.error('Failed to snooze intention:', error);
+      return;
+    }
+    await navigateToTarget();
+  });
+}
+
+// Display the target: its site name in the headline, the full address below
 if (urlDisplayEl && target) {
   try {
     const url = new URL(target);
-    let hostname = url.hostname.replace(/^www\./, '');
-    // Remove common suffixes
-    hostname = hostname.replace(
-      /\.(com|org|net|edu|gov|mil|co\.uk|co\.jp|de|fr|it|es|nl|be|se|no|dk|fi|pl|cz|hu|ro|bg|hr|sk|si|lt|lv|ee|lu|mt|cy|ie|pt|gr|at|ch|li)$/i,
-      ''
-    );
-    urlDisplayEl.textContent = hostname;
+    urlDisplayEl.textContent = siteName(url);
+    targetUrlEl.textContent = displayUrl(url);
   } catch {
     urlDisplayEl.textContent = target;
+    targetUrlEl.textContent = target;
   }
 }
+triggerEl.textContent = describeIntentionTrigger(trigger);
+
+// The scope of the intention that matched the target, as shown in settings
+function showMatchedScope(intention: RawIntention): void {
+  const parsed = parseIntention(intention);
+  if (!parsed) return;
+  const winner = target
+    ? explainMatch(target, [parsed], new Date()).winner
+    : null;
+  const scope = winner?.scope ?? intentionScopes(parsed)[0];
+  matchedScopeEl.textContent = `Intention for ${viewScope(scope)}`;
+}
 
 storage
   .get()
   .then(
-    ({
+    async ({
       intentions,
       fuzzyMatching = true,
+      fuzzyTolerance = DEFAULT_FUZZY_TOLERANCE,
+      caseInsensitiveMatching = false,
+      normalizedMatching = false,
       canCopyIntentionText = false,
       breathAnimationIntensity = 'minimal',
+      budgetResetHour = DEFAULT_BUDGET_RESET_HOUR,
+      escalation: escalationPolicy = DEFAULT_ESCALATION_POLICY,
+      guidedPause = NO_GUIDED_PAUSE,
     }) => {
       // Use intention ID for precise lookup
       const match = intentions.find(r => r.id === intentionId);
+      if (match) showMatchedScope(match);
+      if (match?.action?.kind === 'block') {
+        showBlocked(blockMessageOf(match.action));
+        return;
+      }
       if (match) {
-        expectedPhrase = match.phrase;
-        phraseDisplayEl.textContent = expectedPhrase;
+        setUpSessionLength(match.sessionMinutes ?? null);
+        void showBudget(match, budgetResetHour);
+        setUpSnooze(budgetResetHour);
+        const recentCount = await countRecentCompletions(
+          match,
+          escalationPolicy
+        );
+        const escalation = escalationFor(escalationPolicy, recentCount);
+        showEscalation(escalation, recentCount, escalationPolicy.windowMinutes);
+        const breathOffsetMs = await startGuidedPause(
+          effectivePause(match.guidedPause, guidedPause)
+        );
 
         // Apply breath animation intensity
         const container = document.querySelector('.container') as HTMLElement;
@@ -186,9 +704,24 @@ storage
           container.style.animation =
             breathAnimationIntensity === 'off'
               ? 'fadeIn 0.6s ease-out'
-              : `fadeIn 0.6s ease-out, breathe-${breathAnimationIntensity} 10s ease-in-out infinite`;
+              : `fadeIn 0.6s ease-out, breathe-${breathAnimationIntensity} 10s ease-in-out -${breathOffsetMs}ms infinite`;
         }
 
+        if ((match.promptMode ?? DEFAULT_PROMPT_MODE) === 'reflection') {
+          setUpReflection(match);
+          return;
+        }
+
+        expectedPhrase = await choosePhrase(match, budgetResetHour);
+        if (escalation.longerPhrase) {
+          expectedPhrase = escalatedPhrase(
+            expectedPhrase,
+            recentCount,
+            escalationPolicy.windowMinutes
+          );
+        }
+        phraseDisplayEl.textContent = expectedPhrase;
+
         if (!canCopyIntentionText) {
           phraseDisplayEl.classList.add('no-copy');
           phraseDisplayEl.addEventListener('copy', e => e.preventDefault());
@@ -201,25 +734,22 @@ storage
         }
 
         // Unified fuzzy matching configuration
-        const maxDistance = 2;
+        const matchOptions: PhraseMatchOptions = {
+          tolerance:
+            fuzzyMatching && !escalation.strictMatching
+              ? fuzzyTolerance
+              : EXACT_TOLERANCE,
+          caseInsensitive: caseInsensitiveMatching,
+          normalizeText: normalizedMatching,
+        };
 
         // Function to check if input is an acceptable partial prompt
-        const acceptablePartialPrompt = (input: string): boolean => {
-          if (!fuzzyMatching) {
-            return expectedPhrase.startsWith(input);
-          } else {
-            return fuzzyPartialMatch(input, expectedPhrase, maxDistance);
-          }
-        };
+        const acceptablePartialPrompt = (input: string): boolean =>
+          matchesPhrasePrefix(input, expectedPhrase, matchOptions);
 
         // Function to check if input is an acceptable complete prompt
-        const acceptableCompletePrompt = (input: string): boolean => {
-          if (!fuzzyMatching) {
-            return input === expectedPhrase;
-          } else {
-            return fuzzyMatch(input, expectedPhrase, maxDistance);
-          }
-        };
+        const acceptableCompletePrompt = (input: string): boolean =>
+          matchesPhrase(input, expectedPhrase, matchOptions);
 
         // Set up input event listener for real-time validation
         inputEl.addEventListener('input', e => {
@@ -260,9 +790,7 @@ storage
           if (e.key === 'Enter') {
             e.preventDefault(); // Prevent newline from being added
             if (acceptableCompletePrompt(inputEl.value)) {
-              const targetUrl = new URL(target!);
-              targetUrl.searchParams.set('intention_completed_53c5890', 'true');
-              window.location.href = targetUrl.toString();
+              void continueToTarget();
             }
           }
         });
@@ -277,11 +805,7 @@ storage
             container.classList.add('clicking');
 
             // Navigate after animation
-            setTimeout(() => {
-              const targetUrl = new URL(target!);
-              targetUrl.searchParams.set('intention_completed_53c5890', 'true');
-              window.location.href = targetUrl.toString();
-            }, 200);
+            setTimeout(() => void continueToTarget(), 200);
           }
         };
 
@@ -292,6 +816,8 @@ storage
         phraseDisplayEl.className = 'phrase-display red';
         inputEl.disabled = true;
         buttonEl.disabled = true;
+        sessionLengthEl.disabled = true;
+        snoozeToggleEl.disabled = true;
       }
     }
   );
@@ -1,13 +1,51 @@
 import '@theme';
 import browser from 'webextension-polyfill';
+import {
+  budgetDay,
+  budgetStatus,
+  dailyBudgetOf,
+  describeUsage,
+  emptyBudgetUsage,
+  hasBudget,
+  scopeUsage,
+  usageForDay,
+} from '../../components/budget';
+import { mapNulls } from '../../components/helpers';
+import { toUnicodeHostname, toUnicodeUrl } from '../../components/idn';
 import {
   canParseIntention,
   makeRawIntention,
+  parseIntention,
+  requiredHostMode,
+  type IntentionScopeId,
+  type RawIntention,
 } from '../../components/intention';
-import { storage } from '../../components/storage';
+import { findCoveringIntention } from '../../components/intention-conflicts';
+import {
+  describePause,
+  isPaused,
+  pauseChoiceLabel,
+  pauseEndsAt,
+  PAUSE_OPTIONS_MINUTES,
+  type PauseChoice,
+} from '../../components/pause';
+import {
+  budgetUsageStore,
+  pauseStore,
+  storage,
+} from '../../components/storage';
+import type { Timestamp } from '../../components/time';
 
 interface PopupElements {
   optionsCard: HTMLDivElement;
+  pauseSection: HTMLDivElement;
+  pauseDuration: HTMLSelectElement;
+  pauseUntil: HTMLInputElement;
+  pauseBtn: HTMLButtonElement;
+  pauseStatusText: HTMLSpanElement;
+  resumeBtn: HTMLButtonElement;
+  budgetSection: HTMLDivElement;
+  budgetList: HTMLUListElement;
   quickAddOverlay: HTMLDivElement;
   quickAddBtn: HTMLButtonElement;
   settingsBtn: HTMLButtonElement;
@@ -26,6 +64,20 @@ class PopupController {
   constructor() {
     this.elements = {
       optionsCard: document.getElementById('options-card') as HTMLDivElement,
+      pauseSection: document.getElementById('pause-section') as HTMLDivElement,
+      pauseDuration: document.getElementById(
+        'pause-duration'
+      ) as HTMLSelectElement,
+      pauseUntil: document.getElementById('pause-until') as HTMLInputElement,
+      pauseBtn: document.getElementById('pause-btn') as HTMLButtonElement,
+      pauseStatusText: document.getElementById(
+        'pause-status-text'
+      ) as HTMLSpanElement,
+      resumeBtn: document.getElementById('resume-btn') as HTMLButtonElement,
+      budgetSection: document.getElementById(
+        'budget-section'
+      ) as HTMLDivElement,
+      budgetList: document.getElementById('budget-list') as HTMLUListElement,
       quickAddOverlay: document.getElementById(
         'quick-add-overlay'
       ) as HTMLDivElement,
@@ -69,6 +121,9 @@ class PopupController {
       await this.loadCurrentTab();
       this.setupEventListeners();
       this.updateUI();
+      this.setUpPauseChoices();
+      this.renderPause(await pauseStore.get());
+      await this.renderBudgets(data.intentions, data.budgetResetHour);
       await this.maybeRedirectToSettingsOnInvalidOrDuplicate();
     } catch (error) {
       console.error('Failed to initialise popup:', error);
@@ -108,6 +163,16 @@ class PopupController {
     this.elements.urlInput.addEventListener('input', () =>
       this.clearUrlErrorOnTyping()
     );
+    this.elements.pauseDuration.addEventListener('change', () =>
+      this.elements.pauseDuration.parentElement?.classList.toggle(
+        'until',
+        this.elements.pauseDuration.value === 'until'
+      )
+    );
+    this.elements.pauseBtn.addEventListener('click', () => this.handlePause());
+    this.elements.resumeBtn.addEventListener('click', () =>
+      this.handleResume()
+    );
     this.elements.quickAddSave.addEventListener('click', () =>
       this.handleSaveIntention()
     );
@@ -143,12 +208,102 @@ class PopupController {
     this.elements.quickAddBtn.title = `Add intention for ${this.getDisplayUrl()}`;
   }
 
+  private setUpPauseChoices(): void {
+    const choices = [
+      ...PAUSE_OPTIONS_MINUTES.map(minutes => ({
+        value: String(minutes),
+        label: pauseChoiceLabel(minutes),
+      })),
+      { value: 'until', label: 'Until…' },
+    ];
+    for (const { value, label } of choices) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this.elements.pauseDuration.append(option);
+    }
+  }
+
+  private renderPause(pausedUntil: Timestamp | null): void {
+    const now = new Date();
+    const paused = pausedUntil !== null && isPaused(pausedUntil, now);
+    this.elements.pauseSection.classList.toggle('paused', paused);
+    this.elements.pauseStatusText.textContent = paused
+      ? describePause(pausedUntil, now)
+      : '';
+  }
+
+  private async handlePause(): Promise<void> {
+    const value = this.elements.pauseDuration.value;
+    const choice: PauseChoice =
+      value === 'until'
+        ? { kind: 'until', time: this.elements.pauseUntil.value }
+        : { kind: 'minutes', minutes: Number(value) };
+    const until = pauseEndsAt(choice, new Date());
+    if (until === null) {
+      this.showStatus('Choose a time to pause until', 'error');
+      return;
+    }
+    try {
+      await pauseStore.set(until);
+      this.renderPause(until);
+    } catch (error) {
+      console.error('Failed to pause intentions:', error);
+      this.showStatus('Failed to pause', 'error');
+    }
+  }
+
+  private async handleResume(): Promise<void> {
+    try {
+      await pauseStore.set(null);
+      this.renderPause(null);
+    } catch (error) {
+      console.error('Failed to resume intentions:', error);
+      this.showStatus('Failed to resume', 'error');
+    }
+  }
+
+  // Lists today's usage of every intention that has a daily budget
+  private async renderBudgets(
+    intentions: RawIntention[],
+    resetHour: number | undefined
+  ): Promise<void> {
+    const budgeted = intentions.filter(intention =>
+      hasBudget(dailyBudgetOf(intention))
+    );
+    if (budgeted.length === 0 || resetHour === undefined) return;
+
+    const usage = usageForDay(
+      (await budgetUsageStore.get()) ?? emptyBudgetUsage(''),
+      budgetDay(new Date(), resetHour)
+    );
+    this.elements.budgetList.replaceChildren(
+      ...budgeted.map(intention => {
+        const budget = dailyBudgetOf(intention);
+        const used = scopeUsage(usage, intention.id as IntentionScopeId);
+        const item = document.createElement('li');
+        item.className = 'budget-item';
+        if (budgetStatus(budget, used).kind === 'exhausted') {
+          item.classList.add('exhausted');
+        }
+        const site = document.createElement('span');
+        site.className = 'budget-site';
+        site.textContent = toUnicodeUrl(intention.url);
+        const amount = document.createElement('span');
+        amount.textContent = describeUsage(budget, used);
+        item.append(site, amount);
+        return item;
+      })
+    );
+    this.elements.budgetSection.classList.add('visible');
+  }
+
   private getDisplayUrl(): string {
     if (!this.currentTab?.url) return 'current page';
 
     try {
       const url = new URL(this.currentTab.url);
-      return url.hostname;
+      return toUnicodeHostname(url.hostname);
     } catch {
       return this.currentTab.url;
     }
@@ -241,7 +396,7 @@ class PopupController {
 
     // Ensure the edited URL is parseable before proceeding
     {
-      const testIntention = makeRawIntention(url, '');
+      const testIntention = this.rawIntentionFor(url, '');
       if (!canParseIntention(testIntention)) {
         this.showStatus('Invalid URL', 'error');
         return;
@@ -255,17 +410,14 @@ class PopupController {
       const data = await storage.get();
       const existingIntentions = data.intentions || [];
 
-      const existingIntention = existingIntentions.find(intention => {
-        if (!intention.url) return false;
-        return this.normalizeUrl(intention.url) === this.normalizeUrl(url);
-      });
+      const existingIntention = this.coveringIntention(url, existingIntentions);
 
       if (existingIntention) {
         this.showStatus('Intention already exists for this site', 'error');
         return;
       }
 
-      const newIntention = makeRawIntention(url, phrase);
+      const newIntention = this.rawIntentionFor(url, phrase);
       const updatedIntentions = [...existingIntentions, newIntention];
 
       await storage.set({ intentions: updatedIntentions });
@@ -301,17 +453,30 @@ class PopupController {
     }, 2500);
   }
 
-  private normalizeUrl(url: string): string {
-    try {
-      const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-      let normalized = urlObj.hostname.toLowerCase();
-      if (normalized.startsWith('www.')) {
-        normalized = normalized.substring(4);
-      }
-      return normalized;
-    } catch {
-      return url.toLowerCase();
-    }
+  // Adding the current tab is explicit, so local addresses opt in on their own
+  private rawIntentionFor(url: string, phrase: string): RawIntention {
+    return {
+      ...makeRawIntention(url, phrase),
+      hostMode: requiredHostMode(url),
+    };
+  }
+
+  // Uses the real matching rules, so reddit.com/r/news does not block adding
+  // reddit.com, while google.se is already covered by google.com
+  private coveringIntention(
+    url: string,
+    existingIntentions: RawIntention[]
+  ): RawIntention | null {
+    const candidate = parseIntention(this.rawIntentionFor(url, ''));
+    if (!candidate) return null;
+    const covering = findCoveringIntention(
+      candidate,
+      mapNulls(parseIntention, existingIntentions)
+    );
+    return (
+      existingIntentions.find(intention => intention.id === covering?.id) ??
+      null
+    );
   }
 
   private validateUrlField(): void {
@@ -323,7 +488,7 @@ class PopupController {
       this.elements.urlInput.removeAttribute('aria-describedby');
       return;
     }
-    const testIntention = makeRawIntention(url, '');
+    const testIntention = this.rawIntentionFor(url, '');
     if (!canParseIntention(testIntention)) {
       this.elements.urlInput.classList.add('error');
       this.elements.urlInput.parentElement?.classList.add('error');
@@ -382,17 +547,12 @@ class PopupController {
     'ok' | 'invalid' | 'duplicate' | 'no-tab'
   > {
     if (!this.currentTab?.url) return 'no-tab';
-    const testIntention = makeRawIntention(this.currentTab.url, '');
+    const testIntention = this.rawIntentionFor(this.currentTab.url, '');
     if (!canParseIntention(testIntention)) return 'invalid';
     const data = await storage.get();
     const existingIntentions = data.intentions || [];
-    const hasDuplicate = existingIntentions.some(intention => {
-      if (!intention.url) return false;
-      return (
-        this.normalizeUrl(intention.url) ===
-        this.normalizeUrl(this.currentTab!.url!)
-      );
-    });
+    const hasDuplicate =
+      this.coveringIntention(this.getDisplayUrl(), existingIntentions) !== null;
     if (hasDuplicate) return 'duplicate';
     return 'ok';
   }
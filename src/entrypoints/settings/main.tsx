@@ -1,21 +1,119 @@
 import '@theme';
 import { debounce } from 'lodash-es';
-import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import {
   canParseIntention,
   emptyRawIntention,
+  explainMatch,
+  intentionUrlError,
   isEmpty,
   isPhraseEmpty,
   makeRawIntention,
+  parseIntention,
+  viewScope,
+  DEFAULT_HOST_MODE,
+  DEFAULT_LANGUAGE_MATCH_MODE,
+  DEFAULT_PATH_MATCH_MODE,
+  DEFAULT_QUERY_MATCH_MODE,
+  parseScope,
+  type IntentionScopeId,
+  type LanguageMatchMode,
+  type PathMatchMode,
+  type QueryMatchMode,
   type RawIntention,
 } from '../../components/intention';
 import {
+  SESSION_LENGTH_OPTIONS_MINUTES,
+  sessionLengthLabel,
+} from '../../components/access-session';
+import { DEFAULT_BUDGET_RESET_HOUR } from '../../components/budget';
+import {
+  DEFAULT_ESCALATION_POLICY,
+  ESCALATION_AFTER_OPTIONS,
+  ESCALATION_WINDOW_OPTIONS_MINUTES,
+  escalationWindowLabel,
+  type EscalationPolicy,
+  type EscalationStep,
+} from '../../components/escalation';
+import {
+  CHARACTERS_PER_EDIT,
+  DEFAULT_FUZZY_TOLERANCE,
+  DEFAULT_MAX_DISTANCE,
+  type FuzzyTolerance,
+} from '../../components/fuzzy-matching';
+import {
+  DEFAULT_GUIDED_BREATHS,
+  DEFAULT_GUIDED_SECONDS,
+  describeGuidedPause,
+  NO_GUIDED_PAUSE,
+  type GuidedPause,
+} from '../../components/guided-pause';
+import { mapNulls } from '../../components/helpers';
+import {
+  DEFAULT_BLOCK_MESSAGE,
+  DEFAULT_INTENTION_ACTION,
+  describeIntentionAction,
+  intentionActionOf,
+  type IntentionAction,
+} from '../../components/intention-action';
+import {
+  DEFAULT_LEAVE_FALLBACK,
+  totalRedirections,
+  type LeaveFallback,
+  type RedirectionStats,
+} from '../../components/leave';
+import { toUnicodeUrl } from '../../components/idn';
+import {
+  describeConflict,
+  findScopeConflicts,
+  type ScopeConflict,
+} from '../../components/intention-conflicts';
+import type { HostMode } from '../../components/normalized-url';
+import {
+  activeSnoozes,
+  removeSnooze,
+  type Snoozes,
+} from '../../components/snooze';
+import {
+  pauseStore,
+  redirectionStatsStore,
+  reflectionStore,
+  snoozeStore,
   storage,
   type BreathAnimationIntensity,
   type InactivityMode,
 } from '../../components/storage';
-import { minutesToMs, msToMinutes } from '../../components/time';
+import {
+  minutesToMs,
+  msToMinutes,
+  type Timestamp,
+} from '../../components/time';
+import {
+  DEFAULT_PHRASE_ROTATION,
+  type PhraseRotation,
+} from '../../components/phrase-rotation';
+import {
+  DEFAULT_PROMPT_MODE,
+  DEFAULT_REFLECTION_MIN_LENGTH,
+  DEFAULT_REFLECTION_QUESTION,
+  type PromptMode,
+  type ReflectionAnswer,
+} from '../../components/reflection';
+import {
+  describePause,
+  isPaused,
+  pauseChoiceLabel,
+  pauseEndsAt,
+  PAUSE_OPTIONS_MINUTES,
+} from '../../components/pause';
+import {
+  defaultSchedule,
+  describeSchedule,
+  WEEKDAYS,
+  type IntentionSchedule,
+  type ScheduleMode,
+} from '../../components/schedule';
 import { generateUUID } from '../../components/uuid';
 type Tab = 'settings' | 'about';
 
@@ -26,6 +124,842 @@ declare const __GIT_HASH__: string | undefined;
 const BUILD_VERSION: string = __VERSION__ ?? '0.0.0';
 const BUILD_HASH: string = __GIT_HASH__ ?? 'dev';
 
+const pathMatchOptions: { mode: PathMatchMode; label: string }[] = [
+  { mode: 'segment', label: 'This page and everything below it' },
+  { mode: 'prefix', label: 'Anything starting with this text' },
+  { mode: 'exact', label: 'Only this exact page' },
+];
+
+const queryMatchOptions: { mode: QueryMatchMode; label: string }[] = [
+  { mode: 'ignore', label: 'Any query and hash' },
+  { mode: 'require', label: 'Only the query and hash as written' },
+];
+
+const languageMatchOptions: { mode: LanguageMatchMode; label: string }[] = [
+  { mode: 'loose', label: 'All language versions' },
+  { mode: 'strict', label: 'Only clear language versions' },
+  { mode: 'off', label: 'Exactly as written' },
+];
+
+const scheduleModeOptions: { mode: ScheduleMode | 'always'; label: string }[] =
+  [
+    { mode: 'always', label: 'Always' },
+    { mode: 'during', label: 'Only during these times' },
+    { mode: 'outside', label: 'Only outside these times' },
+  ];
+
+const timeZones = Intl.supportedValuesOf('timeZone');
+
+const phraseRotationOptions: { mode: PhraseRotation; label: string }[] = [
+  { mode: 'random', label: 'Random' },
+  { mode: 'sequential', label: 'In order' },
+  { mode: 'daily', label: 'One per day' },
+];
+
+const intentionActionOptions: {
+  kind: IntentionAction['kind'];
+  label: string;
+}[] = [
+  { kind: 'intention-page', label: 'Intention page' },
+  { kind: 'redirect', label: 'Redirect' },
+  { kind: 'close-tab', label: 'Close the tab' },
+  { kind: 'block', label: 'Block with a message' },
+];
+
+const emptyIntentionAction = (
+  kind: IntentionAction['kind']
+): IntentionAction => {
+  switch (kind) {
+    case 'redirect':
+      return { kind, url: '' };
+    case 'block':
+      return { kind, message: '' };
+    default:
+      return { kind };
+  }
+};
+
+const promptModeOptions: { mode: PromptMode; label: string }[] = [
+  { mode: 'phrase', label: 'Type the phrase' },
+  { mode: 'reflection', label: 'Answer a question' },
+];
+
+const escalationStepOptions: { step: EscalationStep; label: string }[] = [
+  { step: 'countdown', label: 'Wait before typing' },
+  { step: 'longer-phrase', label: 'Type a longer phrase' },
+  { step: 'strict-matching', label: 'No typos allowed' },
+];
+
+const leaveFallbackOptions: {
+  kind: LeaveFallback['kind'];
+  label: string;
+}[] = [
+  { kind: 'previous-page', label: 'Previous page' },
+  { kind: 'productive-url', label: 'A site of my choice' },
+  { kind: 'new-tab', label: 'New tab' },
+  { kind: 'close-tab', label: 'Close the tab' },
+];
+
+// Reflections shown at first, and added with each "Show more"
+const REFLECTIONS_PAGE_SIZE = 20;
+
+const hostModeOptions: { mode: HostMode; label: string }[] = [
+  { mode: 'public', label: 'Public websites' },
+  { mode: 'local-and-private', label: 'Also local & private addresses' },
+];
+
+// Empty or non-positive limits mean no limit
+const parseDailyLimit = (value: string): number | undefined => {
+  const parsed = parseInt(value);
+  return parsed > 0 ? parsed : undefined;
+};
+
+const hourLabel = (hour: number): string =>
+  `${String(hour).padStart(2, '0')}:00`;
+
+// Saves data as a JSON file through a temporary download link
+const downloadJson = (data: unknown, filename: string): void => {
+  const dataStr = JSON.stringify(data, null, 2);
+  const dataBlob = new Blob([dataStr], { type: 'application/json' });
+
+  const url = URL.createObjectURL(dataBlob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Internationalized hosts are shown in Unicode, however they were entered
+const withUnicodeHosts = (intention: RawIntention): RawIntention => ({
+  ...intention,
+  url: toUnicodeUrl(intention.url),
+  ...(intention.additionalUrls && {
+    additionalUrls: intention.additionalUrls.map(toUnicodeUrl),
+  }),
+  ...(intention.exceptions && {
+    exceptions: intention.exceptions.map(toUnicodeUrl),
+  }),
+});
+
+const UrlListEditor = memo(
+  ({
+    urls,
+    onChange,
+    addLabel,
+    placeholder,
+    testId,
+    hostMode,
+  }: {
+    urls: string[];
+    onChange: (urls: string[]) => void;
+    addLabel: string;
+    placeholder: string;
+    testId: string;
+    hostMode: HostMode;
+  }) => {
+    const [blurredIndexes, setBlurredIndexes] = useState<Set<number>>(
+      new Set()
+    );
+
+    const errorFor = (url: string, index: number): string | null => {
+      if (!blurredIndexes.has(index) || url.trim() === '') return null;
+      const result = parseScope(url, hostMode);
+      return result.kind === 'error' ? result.message : null;
+    };
+
+    return (
+      <div className='url-list' data-testid={`${testId}-list`}>
+        {urls.map((url, index) => (
+          <div key={index} className='url-list-item'>
+            <div className='url-list-row'>
+              <input
+                type='text'
+                className={`url-list-input ${errorFor(url, index) ? 'error' : ''}`}
+                data-testid={`${testId}-input`}
+                value={url}
+                placeholder={placeholder}
+                onChange={e => {
+                  const next = [...urls];
+                  next[index] = e.target.value;
+                  onChange(next);
+                }}
+                onFocus={() =>
+                  setBlurredIndexes(prev => {
+                    const next = new Set(prev);
+                    next.delete(index);
+                    return next;
+                  })
+                }
+                onBlur={() => {
+                  setBlurredIndexes(prev => new Set([...prev, index]));
+                  if (toUnicodeUrl(url) !== url) {
+                    onChange(
+                      urls.map((u, i) => (i === index ? toUnicodeUrl(u) : u))
+                    );
+                  }
+                }}
+              />
+              <button
+                className='url-list-remove-btn'
+                data-testid={`${testId}-remove-btn`}
+                title='Remove'
+                onClick={() => {
+                  onChange(urls.filter((_, i) => i !== index));
+                  setBlurredIndexes(new Set());
+                }}
+              >
+                ×
+              </button>
+            </div>
+            {errorFor(url, index) && (
+              <div className='error-text show'>{errorFor(url, index)}</div>
+            )}
+          </div>
+        ))}
+        <button
+          className='url-list-add-btn'
+          data-testid={`${testId}-add-btn`}
+          onClick={() => onChange([...urls, ''])}
+        >
+          + {addLabel}
+        </button>
+      </div>
+    );
+  }
+);
+
+const PhraseListEditor = memo(
+  ({
+    phrases,
+    onChange,
+  }: {
+    phrases: string[];
+    onChange: (phrases: string[]) => void;
+  }) => (
+    <div className='url-list' data-testid='more-phrases-list'>
+      {phrases.map((phrase, index) => (
+        <div key={index} className='url-list-row'>
+          <input
+            type='text'
+            className='url-list-input'
+            data-testid='more-phrases-input'
+            value={phrase}
+            placeholder='Another way to say your intention'
+            maxLength={150}
+            onChange={e =>
+              onChange(
+                phrases.map((p, i) => (i === index ? e.target.value : p))
+              )
+            }
+          />
+          <button
+            className='url-list-remove-btn'
+            data-testid='more-phrases-remove-btn'
+            title='Remove'
+            onClick={() => onChange(phrases.filter((_, i) => i !== index))}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        className='url-list-add-btn'
+        data-testid='more-phrases-add-btn'
+        onClick={() => onChange([...phrases, ''])}
+      >
+        + Add phrase
+      </button>
+    </div>
+  )
+);
+
+const ScheduleEditor = memo(
+  ({
+    schedule,
+    onChange,
+    name,
+  }: {
+    schedule: IntentionSchedule | undefined;
+    onChange: (schedule: IntentionSchedule | undefined) => void;
+    name: string;
+  }) => {
+    const update = (patch: Partial<IntentionSchedule>) =>
+      schedule && onChange({ ...schedule, ...patch });
+
+    return (
+      <div className='schedule-editor' data-testid='schedule-editor'>
+        <div className='radio-group-horizontal'>
+          {scheduleModeOptions.map(({ mode, label }) => (
+            <label key={mode} className='radio-option'>
+              <input
+                data-testid={`schedule-mode-${mode}`}
+                type='radio'
+                name={name}
+                value={mode}
+                checked={(schedule?.mode ?? 'always') === mode}
+                onChange={() =>
+                  onChange(
+                    mode === 'always'
+                      ? undefined
+                      : schedule
+                        ? { ...schedule, mode }
+                        : defaultSchedule(mode)
+                  )
+                }
+              />
+              <span className='radio-label'>{label}</span>
+            </label>
+          ))}
+        </div>
+        {schedule && (
+          <>
+            <div className='schedule-days'>
+              {WEEKDAYS.map(({ day, label }) => (
+                <label key={day} className='schedule-day'>
+                  <input
+                    data-testid={`schedule-day-${day}`}
+                    type='checkbox'
+                    checked={schedule.days.includes(day)}
+                    onChange={e =>
+                      update({
+                        days: e.target.checked
+                          ? [...schedule.days, day]
+                          : schedule.days.filter(d => d !== day),
+                      })
+                    }
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <div className='schedule-ranges'>
+              {schedule.ranges.map((range, index) => (
+                <div key={index} className='schedule-range'>
+                  <input
+                    type='time'
+                    className='schedule-time-input'
+                    data-testid='schedule-range-start'
+                    value={range.start}
+                    onChange={e =>
+                      update({
+                        ranges: schedule.ranges.map((r, i) =>
+                          i === index ? { ...r, start: e.target.value } : r
+                        ),
+                      })
+                    }
+                  />
+                  –
+                  <input
+                    type='time'
+                    className='schedule-time-input'
+                    data-testid='schedule-range-end'
+                    value={range.end}
+                    onChange={e =>
+                      update({
+                        ranges: schedule.ranges.map((r, i) =>
+                          i === index ? { ...r, end: e.target.value } : r
+                        ),
+                      })
+                    }
+                  />
+                  <button
+                    className='url-list-remove-btn'
+                    data-testid='schedule-range-remove-btn'
+                    title='Remove'
+                    onClick={() =>
+                      update({
+                        ranges: schedule.ranges.filter((_, i) => i !== index),
+                      })
+                    }
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              {schedule.ranges.length === 0 && (
+                <span className='schedule-all-day'>All day</span>
+              )}
+              <button
+                className='url-list-add-btn'
+                data-testid='schedule-range-add-btn'
+                onClick={() =>
+                  update({
+                    ranges: [
+                      ...schedule.ranges,
+                      { start: '09:00', end: '17:00' },
+                    ],
+                  })
+                }
+              >
+                + Add time range
+              </button>
+            </div>
+            <select
+              className='session-length-select'
+              data-testid='schedule-time-zone'
+              value={schedule.timeZone ?? ''}
+              onChange={e => update({ timeZone: e.target.value || null })}
+            >
+              <option value=''>Browser time zone</option>
+              {timeZones.map(timeZone => (
+                <option key={timeZone} value={timeZone}>
+                  {timeZone}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+    );
+  }
+);
+
+const PausePanel = memo(() => {
+  const [pausedUntil, setPausedUntil] = useState<Timestamp | null>(null);
+  const [choice, setChoice] = useState(String(PAUSE_OPTIONS_MINUTES[0]));
+  const [untilTime, setUntilTime] = useState('');
+
+  // Follows pauses started in the popup and the automatic resume
+  useEffect(() => {
+    pauseStore.get().then(setPausedUntil);
+    const listener = (changes: Record<string, { newValue?: unknown }>) => {
+      if (changes.pausedUntil) {
+        setPausedUntil((changes.pausedUntil.newValue as Timestamp) ?? null);
+      }
+    };
+    browser.storage.onChanged.addListener(listener);
+    return () => browser.storage.onChanged.removeListener(listener);
+  }, []);
+
+  const now = new Date();
+  const until =
+    choice === 'until'
+      ? pauseEndsAt({ kind: 'until', time: untilTime }, now)
+      : pauseEndsAt({ kind: 'minutes', minutes: Number(choice) }, now);
+
+  return (
+    <div className='pause-panel' data-testid='pause-panel'>
+      <h3>Pause all intentions</h3>
+      <p className='pause-panel-description'>
+        Turn Intender off for a demo or a deadline. It turns itself back on when
+        the time is up.
+      </p>
+      {pausedUntil !== null && isPaused(pausedUntil, now) ? (
+        <div className='pause-panel-row'>
+          <span data-testid='pause-status'>
+            {describePause(pausedUntil, now)}
+          </span>
+          <button
+            className='pause-panel-btn'
+            data-testid='resume-btn'
+            onClick={() => pauseStore.set(null)}
+          >
+            Resume now
+          </button>
+        </div>
+      ) : (
+        <div className='pause-panel-row'>
+          <select
+            className='session-length-select'
+            data-testid='pause-duration'
+            value={choice}
+            onChange={e => setChoice(e.target.value)}
+          >
+            {PAUSE_OPTIONS_MINUTES.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {pauseChoiceLabel(minutes)}
+              </option>
+            ))}
+            <option value='until'>Until…</option>
+          </select>
+          {choice === 'until' && (
+            <input
+              type='time'
+              className='schedule-time-input'
+              data-testid='pause-until'
+              value={untilTime}
+              onChange={e => setUntilTime(e.target.value)}
+            />
+          )}
+          <button
+            className='pause-panel-btn'
+            data-testid='pause-btn'
+            disabled={until === null}
+            onClick={() => until !== null && pauseStore.set(until)}
+          >
+            Pause
+          </button>
+        </div>
+      )}
+    </div>
+  );
+});
+
+const SnoozeList = memo(({ intentions }: { intentions: RawIntention[] }) => {
+  const [snoozes, setSnoozes] = useState({} as Snoozes);
+
+  useEffect(() => {
+    snoozeStore.get().then(setSnoozes);
+    const listener = (changes: Record<string, { newValue?: unknown }>) => {
+      if (changes.snoozes) {
+        setSnoozes((changes.snoozes.newValue as Snoozes) ?? ({} as Snoozes));
+      }
+    };
+    browser.storage.onChanged.addListener(listener);
+    return () => browser.storage.onChanged.removeListener(listener);
+  }, []);
+
+  const active = Object.entries(activeSnoozes(snoozes, new Date())) as [
+    IntentionScopeId,
+    Timestamp,
+  ][];
+  if (active.length === 0) return null;
+
+  return (
+    <div className='snooze-list' data-testid='snooze-list'>
+      <h3>Snoozed for today</h3>
+      <ul>
+        {active.map(([scopeId, endsAt]) => {
+          const intention = intentions.find(({ id }) => id === scopeId);
+          return (
+            <li
+              key={scopeId}
+              className='snooze-list-item'
+              data-testid='snooze-list-item'
+            >
+              <span className='snooze-list-site'>
+                {intention?.url || 'Removed intention'}
+              </span>
+              <span className='snooze-list-until'>
+                until{' '}
+                {new Date(endsAt).toLocaleTimeString([], {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </span>
+              <button
+                className='pause-panel-btn'
+                data-testid='snooze-revoke-btn'
+                onClick={() => snoozeStore.set(removeSnooze(snoozes, scopeId))}
+              >
+                Revoke
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+});
+
+const RedirectionStatsPanel = memo(
+  ({ intentions }: { intentions: RawIntention[] }) => {
+    const [stats, setStats] = useState({} as RedirectionStats);
+
+    useEffect(() => {
+      redirectionStatsStore.get().then(setStats);
+      const listener = (changes: Record<string, { newValue?: unknown }>) => {
+        if (changes.redirectionStats) {
+          setStats(
+            (changes.redirectionStats.newValue as RedirectionStats) ??
+              ({} as RedirectionStats)
+          );
+        }
+      };
+      browser.storage.onChanged.addListener(listener);
+      return () => browser.storage.onChanged.removeListener(listener);
+    }, []);
+
+    const total = totalRedirections(stats);
+    if (total === 0) return null;
+
+    const bySite = (Object.entries(stats) as [IntentionScopeId, number][]).sort(
+      ([, a], [, b]) => b - a
+    );
+
+    return (
+      <div className='snooze-list' data-testid='redirection-stats'>
+        <h3>
+          Left instead of continuing: {total === 1 ? 'once' : `${total} times`}
+        </h3>
+        <ul>
+          {bySite.map(([scopeId, count]) => (
+            <li
+              key={scopeId}
+              className='snooze-list-item'
+              data-testid='redirection-stats-item'
+            >
+              <span className='snooze-list-site'>
+                {intentions.find(({ id }) => id === scopeId)?.url ||
+                  'Removed intention'}
+              </span>
+              <span className='snooze-list-until'>{count}×</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+);
+
+const ReflectionList = memo(
+  ({
+    intentions,
+    onExport,
+  }: {
+    intentions: RawIntention[];
+    onExport: () => void;
+  }) => {
+    const [answers, setAnswers] = useState<ReflectionAnswer[]>([]);
+    const [intentionFilter, setIntentionFilter] = useState(''); // '' for all
+    const [shownCount, setShownCount] = useState(REFLECTIONS_PAGE_SIZE);
+
+    useEffect(() => {
+      reflectionStore.get().then(setAnswers);
+      const listener = (changes: Record<string, { newValue?: unknown }>) => {
+        if (changes.reflectionAnswers) {
+          setAnswers(
+            (changes.reflectionAnswers.newValue as ReflectionAnswer[]) ?? []
+          );
+        }
+      };
+      browser.storage.onChanged.addListener(listener);
+      return () => browser.storage.onChanged.removeListener(listener);
+    }, []);
+
+    if (answers.length === 0) return null;
+
+    // Answers keep the URL they were given for, in case the intention is gone
+    const siteOf = (answer: ReflectionAnswer) =>
+      intentions.find(({ id }) => id === answer.intentionId)?.url || answer.url;
+    const sites = new Map(answers.map(answer => [answer.intentionId, answer]));
+    const newestFirst = answers
+      .filter(
+        answer =>
+          intentionFilter === '' || answer.intentionId === intentionFilter
+      )
+      .reverse();
+
+    return (
+      <div className='snooze-list' data-testid='reflection-list'>
+        <div className='reflection-list-header'>
+          <h3>Reflections</h3>
+          <select
+            className='reflection-filter'
+            data-testid='reflection-filter'
+            value={intentionFilter}
+            onChange={e => {
+              setIntentionFilter(e.target.value);
+              setShownCount(REFLECTIONS_PAGE_SIZE);
+            }}
+          >
+            <option value=''>All sites</option>
+            {[...sites].map(([intentionId, answer]) => (
+              <option key={intentionId} value={intentionId}>
+                {siteOf(answer)}
+              </option>
+            ))}
+          </select>
+          <button
+            className='pause-panel-btn'
+            data-testid='reflection-export-btn'
+            onClick={onExport}
+          >
+            Export
+          </button>
+        </div>
+        <ul>
+          {newestFirst.slice(0, shownCount).map(answer => (
+            <li
+              key={`${answer.intentionId}-${answer.answeredAt}`}
+              className='reflection-list-item'
+              data-testid='reflection-list-item'
+            >
+              <div className='reflection-list-meta'>
+                {siteOf(answer)} ·{' '}
+                {new Date(answer.answeredAt).toLocaleString([], {
+                  dateStyle: 'medium',
+                  timeStyle: 'short',
+                })}
+              </div>
+              <div className='reflection-list-question'>{answer.question}</div>
+              <div className='reflection-list-answer'>{answer.answer}</div>
+            </li>
+          ))}
+        </ul>
+        {newestFirst.length > shownCount && (
+          <button
+            className='pause-panel-btn'
+            data-testid='reflection-show-more-btn'
+            onClick={() =>
+              setShownCount(count => count + REFLECTIONS_PAGE_SIZE)
+            }
+          >
+            Show more
+          </button>
+        )}
+      </div>
+    );
+  }
+);
+
+// Edits a guided pause; with a defaultLabel, it can also be left unset
+const GuidedPauseEditor = memo(
+  ({
+    pause,
+    defaultLabel,
+    testIdPrefix,
+    onChange,
+  }: {
+    pause: GuidedPause | undefined;
+    defaultLabel: string | null;
+    testIdPrefix: string;
+    onChange: (pause: GuidedPause | undefined) => void;
+  }) => {
+    const kind = pause?.kind ?? 'default';
+    return (
+      <div className='daily-budget'>
+        <select
+          className='session-length-select'
+          data-testid={`${testIdPrefix}-kind`}
+          value={kind}
+          onChange={e => {
+            switch (e.target.value) {
+              case 'default':
+                return onChange(undefined);
+              case 'off':
+                return onChange(NO_GUIDED_PAUSE);
+              case 'breaths':
+                return onChange({
+                  kind: 'breaths',
+                  count: DEFAULT_GUIDED_BREATHS,
+                });
+              case 'seconds':
+                return onChange({
+                  kind: 'seconds',
+                  seconds: DEFAULT_GUIDED_SECONDS,
+                });
+            }
+          }}
+        >
+          {defaultLabel !== null && (
+            <option value='default'>{defaultLabel}</option>
+          )}
+          <option value='off'>No pause</option>
+          <option value='breaths'>Breaths</option>
+          <option value='seconds'>Seconds</option>
+        </select>
+        {pause?.kind === 'breaths' && (
+          <label className='daily-budget-field'>
+            <input
+              className='daily-budget-input'
+              data-testid={`${testIdPrefix}-length`}
+              type='number'
+              min='1'
+              value={pause.count}
+              onChange={e => {
+                const count = parseInt(e.target.value);
+                if (count > 0) onChange({ kind: 'breaths', count });
+              }}
+            />
+            breaths
+          </label>
+        )}
+        {pause?.kind === 'seconds' && (
+          <label className='daily-budget-field'>
+            <input
+              className='daily-budget-input'
+              data-testid={`${testIdPrefix}-length`}
+              type='number'
+              min='1'
+              value={pause.seconds}
+              onChange={e => {
+                const seconds = parseInt(e.target.value);
+                if (seconds > 0) onChange({ kind: 'seconds', seconds });
+              }}
+            />
+            seconds
+          </label>
+        )}
+      </div>
+    );
+  }
+);
+
+const UrlTester = memo(({ intentions }: { intentions: RawIntention[] }) => {
+  const [testUrl, setTestUrl] = useState('');
+
+  const explanation = useMemo(() => {
+    const url = testUrl.trim();
+    if (url === '') return null;
+    const withProtocol = /^[a-z][a-z\d+\-.]*:\/\//i.test(url)
+      ? url
+      : `https://${url}`;
+    return explainMatch(
+      withProtocol,
+      mapNulls(parseIntention, intentions),
+      new Date()
+    );
+  }, [testUrl, intentions]);
+
+  return (
+    <div className='url-tester' data-testid='url-tester'>
+      <h3>Test a URL</h3>
+      <p className='url-tester-description'>
+        See which intention a page would get, and why. Uses the intentions
+        above, including unsaved changes.
+      </p>
+      <input
+        type='text'
+        className='url-tester-input'
+        data-testid='url-tester-input'
+        value={testUrl}
+        placeholder='e.g. https://www.reddit.com/r/news'
+        onChange={e => setTestUrl(e.target.value)}
+      />
+      {explanation && (
+        <div className='url-tester-result' data-testid='url-tester-result'>
+          <div className='url-tester-winner'>
+            {explanation.winner
+              ? `Shows the intention "${explanation.winner.intention.phrase}" (${viewScope(explanation.winner.scope)})`
+              : 'No intention matches this URL'}
+          </div>
+          {explanation.candidates.length === 0 && (
+            <div className='url-tester-empty'>
+              No intention is set up for this website.
+            </div>
+          )}
+          {explanation.candidates.map((candidate, i) => (
+            <div
+              key={i}
+              className={`url-tester-candidate ${candidate.matched ? 'matched' : ''} ${candidate === explanation.winner ? 'winner' : ''}`}
+              data-testid='url-tester-candidate'
+            >
+              <div className='url-tester-candidate-header'>
+                {candidate.scope.originalUrl} · {candidate.intention.phrase}
+              </div>
+              <ul className='url-tester-steps'>
+                {candidate.steps.map((step, j) => (
+                  <li
+                    key={j}
+                    className={step.passed ? 'passed' : 'failed'}
+                    data-testid={`url-tester-step-${step.step}`}
+                  >
+                    <span aria-hidden='true'>{step.passed ? '✓' : '✗'}</span>{' '}
+                    <span className='url-tester-step-name'>{step.step}</span>:{' '}
+                    {step.detail}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
 const SettingsTab = memo(
   ({ setActiveTab }: { setActiveTab: (tab: Tab) => void }) => {
     const [intentions, setIntentions] = useState<RawIntention[]>([]);
@@ -49,6 +983,12 @@ const SettingsTab = memo(
     const [showMoreOptions, setShowMoreOptions] = useState(false);
     const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
     const [fuzzyMatching, setFuzzyMatching] = useState(false);
+    const [fuzzyTolerance, setFuzzyTolerance] = useState(
+      DEFAULT_FUZZY_TOLERANCE
+    );
+    const [caseInsensitiveMatching, setCaseInsensitiveMatching] =
+      useState(false);
+    const [normalizedMatching, setNormalizedMatching] = useState(false);
     const [inactivityMode, setInactivityMode] = useState<InactivityMode>('off');
     const [inactivityTimeoutMinutes, setInactivityTimeoutMinutes] =
       useState(30);
@@ -57,6 +997,12 @@ const SettingsTab = memo(
       useState<BreathAnimationIntensity>('minimal');
     const [directToSettings, setDirectToSettings] = useState(false);
     const [debugLogging, setDebugLogging] = useState(false);
+    const [budgetResetHour, setBudgetResetHour] = useState(
+      DEFAULT_BUDGET_RESET_HOUR
+    );
+    const [escalation, setEscalation] = useState(DEFAULT_ESCALATION_POLICY);
+    const [guidedPause, setGuidedPause] = useState(NO_GUIDED_PAUSE);
+    const [leaveFallback, setLeaveFallback] = useState(DEFAULT_LEAVE_FALLBACK);
     const [showDeveloperSettings, setShowDeveloperSettings] = useState(false);
     const [versionClickCount, setVersionClickCount] = useState(0);
 
@@ -68,6 +1014,9 @@ const SettingsTab = memo(
       new Set()
     );
     const [isShiftHeld, setIsShiftHeld] = useState(false);
+    const [expandedOptionIds, setExpandedOptionIds] = useState<Set<string>>(
+      new Set()
+    );
 
     // ============================================================================
     // INTENTION CARD STATE MANAGEMENT
@@ -113,6 +1062,37 @@ const SettingsTab = memo(
       return loadedIntentionIds.has(id);
     };
 
+    const toggleOptionsExpanded = (id: string) => {
+      setExpandedOptionIds(prev => {
+        const newSet = new Set(prev);
+        if (newSet.has(id)) {
+          newSet.delete(id);
+        } else {
+          newSet.add(id);
+        }
+        return newSet;
+      });
+    };
+
+    const isOptionsExpanded = (id: string) => {
+      return expandedOptionIds.has(id);
+    };
+
+    const conflictsById = useMemo(() => {
+      const byId = new Map<string, ScopeConflict[]>();
+      const parsed = mapNulls(parseIntention, intentions);
+      for (const conflict of findScopeConflicts(parsed)) {
+        byId.set(conflict.intentionId, [
+          ...(byId.get(conflict.intentionId) ?? []),
+          conflict,
+        ]);
+      }
+      return byId;
+    }, [intentions]);
+
+    const conflictsFor = (id: string): ScopeConflict[] =>
+      conflictsById.get(id) ?? [];
+
     const updateLoadedIntentionIds = (
       ids: Set<string> | ((prev: Set<string>) => Set<string>)
     ) => {
@@ -155,6 +1135,24 @@ const SettingsTab = memo(
       await storage.set({ fuzzyMatching: enabled });
     }, []);
 
+    const saveFuzzyTolerance = useCallback(
+      async (tolerance: FuzzyTolerance) => {
+        await storage.set({ fuzzyTolerance: tolerance });
+      },
+      []
+    );
+
+    const saveCaseInsensitiveMatching = useCallback(
+      async (enabled: boolean) => {
+        await storage.set({ caseInsensitiveMatching: enabled });
+      },
+      []
+    );
+
+    const saveNormalizedMatching = useCallback(async (enabled: boolean) => {
+      await storage.set({ normalizedMatching: enabled });
+    }, []);
+
     const saveInactivityMode = useCallback(async (mode: InactivityMode) => {
       await storage.set({ inactivityMode: mode });
     }, []);
@@ -189,6 +1187,33 @@ const SettingsTab = memo(
       await storage.set({ debugLogging: enabled });
     }, []);
 
+    const saveBudgetResetHour = useCallback(async (hour: number) => {
+      await storage.set({ budgetResetHour: hour });
+    }, []);
+
+    const saveEscalation = useCallback(async (policy: EscalationPolicy) => {
+      await storage.set({ escalation: policy });
+    }, []);
+
+    const saveGuidedPause = useCallback(async (pause: GuidedPause) => {
+      await storage.set({ guidedPause: pause });
+    }, []);
+
+    const saveLeaveFallback = useCallback(async (fallback: LeaveFallback) => {
+      await storage.set({ leaveFallback: fallback });
+    }, []);
+
+    const updateLeaveFallback = (fallback: LeaveFallback) => {
+      setLeaveFallback(fallback);
+      saveLeaveFallback(fallback);
+    };
+
+    const updateEscalation = (patch: Partial<EscalationPolicy>) => {
+      const next = { ...escalation, ...patch };
+      setEscalation(next);
+      saveEscalation(next);
+    };
+
     // Debounced save function
     const debouncedSave = useCallback(
       debounce(async (intentionsToSave: RawIntention[]) => {
@@ -205,9 +1230,14 @@ const SettingsTab = memo(
     useEffect(() => {
       storage.get().then(async data => {
         const initialIntentions =
-          data.intentions.length > 0 ? data.intentions : [emptyRawIntention()];
+          data.intentions.length > 0
+            ? data.intentions.map(withUnicodeHosts)
+            : [emptyRawIntention()];
         setIntentions(initialIntentions);
         setFuzzyMatching(data.fuzzyMatching ?? true);
+        setFuzzyTolerance(data.fuzzyTolerance ?? DEFAULT_FUZZY_TOLERANCE);
+        setCaseInsensitiveMatching(data.caseInsensitiveMatching ?? false);
+        setNormalizedMatching(data.normalizedMatching ?? false);
         setInactivityMode(data.inactivityMode ?? 'off');
         setInactivityTimeoutMinutes(
           data.inactivityTimeoutMs
@@ -222,6 +1252,10 @@ const SettingsTab = memo(
         );
         setDirectToSettings(data.directToSettings ?? false);
         setDebugLogging(data.debugLogging ?? false);
+        setBudgetResetHour(data.budgetResetHour ?? DEFAULT_BUDGET_RESET_HOUR);
+        setEscalation(data.escalation ?? DEFAULT_ESCALATION_POLICY);
+        setGuidedPause(data.guidedPause ?? NO_GUIDED_PAUSE);
+        setLeaveFallback(data.leaveFallback ?? DEFAULT_LEAVE_FALLBACK);
 
         // E2E testing hook: allow overriding inactivity timeout via query param
         try {
@@ -361,6 +1395,70 @@ const SettingsTab = memo(
       );
     };
 
+    const optionsSummary = (intention: RawIntention): string[] => {
+      const parts: string[] = [];
+      const additionalCount = intention.additionalUrls?.length ?? 0;
+      const exceptionCount = intention.exceptions?.length ?? 0;
+      if (additionalCount > 0) {
+        parts.push(`${additionalCount} more website(s)`);
+      }
+      if (exceptionCount > 0) {
+        parts.push(`${exceptionCount} exception(s)`);
+      }
+      const pathMatch = intention.pathMatch ?? DEFAULT_PATH_MATCH_MODE;
+      if (pathMatch !== DEFAULT_PATH_MATCH_MODE) {
+        parts.push(pathMatch === 'exact' ? 'exact page' : 'prefix match');
+      }
+      if ((intention.queryMatch ?? DEFAULT_QUERY_MATCH_MODE) === 'require') {
+        parts.push('query required');
+      }
+      if ((intention.hostMode ?? DEFAULT_HOST_MODE) === 'local-and-private') {
+        parts.push('local & private');
+      }
+      if (intention.sessionMinutes !== undefined) {
+        parts.push(`${intention.sessionMinutes} min sessions`);
+      }
+      if (intention.dailyVisitLimit !== undefined) {
+        parts.push(`${intention.dailyVisitLimit} visits/day`);
+      }
+      if (intention.dailyMinutesLimit !== undefined) {
+        parts.push(`${intention.dailyMinutesLimit} min/day`);
+      }
+      if (intention.schedule) {
+        parts.push(describeSchedule(intention.schedule));
+      }
+      const action = intentionActionOf(intention);
+      if (action.kind !== DEFAULT_INTENTION_ACTION.kind) {
+        parts.push(describeIntentionAction(action));
+      }
+      if ((intention.promptMode ?? DEFAULT_PROMPT_MODE) === 'reflection') {
+        parts.push('reflection');
+      }
+      if (intention.guidedPause) {
+        parts.push(describeGuidedPause(intention.guidedPause));
+      }
+      const phraseCount = intention.additionalPhrases?.length ?? 0;
+      if (phraseCount > 0) {
+        parts.push(`${phraseCount} more phrase(s)`);
+      }
+      const languageMatch =
+        intention.languageMatch ?? DEFAULT_LANGUAGE_MATCH_MODE;
+      if (languageMatch !== DEFAULT_LANGUAGE_MATCH_MODE) {
+        parts.push(
+          languageMatch === 'off' ? 'no language versions' : 'strict languages'
+        );
+      }
+      return parts;
+    };
+
+    const updateIntentionAt = (index: number, patch: Partial<RawIntention>) => {
+      setIntentions(prev => {
+        const newIntentions = [...prev];
+        newIntentions[index] = { ...newIntentions[index], ...patch };
+        return newIntentions;
+      });
+    };
+
     const addIntention = () => {
       setIntentions(prev => {
         const newIntentions = [...prev, emptyRawIntention()];
@@ -497,15 +1595,7 @@ const SettingsTab = memo(
           intentions: nonemptyIntentions,
         };
 
-        const dataStr = JSON.stringify(exportData, null, 2);
-        const dataBlob = new Blob([dataStr], { type: 'application/json' });
-
-        const url = URL.createObjectURL(dataBlob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = 'intender-settings.json';
-        link.click();
-        URL.revokeObjectURL(url);
+        downloadJson(exportData, 'intender-settings.json');
 
         setToast({
           show: true,
@@ -524,6 +1614,31 @@ const SettingsTab = memo(
       }
     };
 
+    const exportReflections = async () => {
+      try {
+        const exportData = {
+          version: BUILD_VERSION,
+          reflections: await reflectionStore.get(),
+        };
+        downloadJson(exportData, 'intender-reflections.json');
+
+        setToast({
+          show: true,
+          message: `Reflections Exported`,
+          type: 'success',
+        });
+        setTimeout(() => setToast(prev => ({ ...prev, show: false })), 3000);
+      } catch (error) {
+        console.error('Export failed:', error);
+        setToast({
+          show: true,
+          message: 'Failed to export reflections',
+          type: 'error',
+        });
+        setTimeout(() => setToast(prev => ({ ...prev, show: false })), 3000);
+      }
+    };
+
     const exportLogs = async () => {
       try {
         const result = await browser.storage.local.get('__testLogs');
@@ -632,6 +1747,17 @@ const SettingsTab = memo(
             if (settingsToApply.fuzzyMatching !== undefined) {
               setFuzzyMatching(settingsToApply.fuzzyMatching);
             }
+            if (settingsToApply.fuzzyTolerance !== undefined) {
+              setFuzzyTolerance(settingsToApply.fuzzyTolerance);
+            }
+            if (settingsToApply.caseInsensitiveMatching !== undefined) {
+              setCaseInsensitiveMatching(
+                settingsToApply.caseInsensitiveMatching
+              );
+            }
+            if (settingsToApply.normalizedMatching !== undefined) {
+              setNormalizedMatching(settingsToApply.normalizedMatching);
+            }
             if (settingsToApply.inactivityMode !== undefined) {
               setInactivityMode(settingsToApply.inactivityMode);
             }
@@ -649,6 +1775,18 @@ const SettingsTab = memo(
             if (settingsToApply.directToSettings !== undefined) {
               setDirectToSettings(settingsToApply.directToSettings);
             }
+            if (settingsToApply.budgetResetHour !== undefined) {
+              setBudgetResetHour(settingsToApply.budgetResetHour);
+            }
+            if (settingsToApply.escalation !== undefined) {
+              setEscalation(settingsToApply.escalation);
+            }
+            if (settingsToApply.guidedPause !== undefined) {
+              setGuidedPause(settingsToApply.guidedPause);
+            }
+            if (settingsToApply.leaveFallback !== undefined) {
+              setLeaveFallback(settingsToApply.leaveFallback);
+            }
 
             // Mark all imported intentions as loaded
             const importedIds = new Set(
@@ -755,7 +1893,14 @@ const SettingsTab = memo(
                         setIntentions(newIntentions);
                       }}
                       onFocus={() => markUrlFocused(intention.id)}
-                      onBlur={() => markUrlBlurred(intention.id)}
+                      onBlur={() => {
+                        markUrlBlurred(intention.id);
+                        if (toUnicodeUrl(intention.url) !== intention.url) {
+                          updateIntentionAt(i, {
+                            url: toUnicodeUrl(intention.url),
+                          });
+                        }
+                      }}
                       placeholder='Website (e.g., example.com)'
                     />
                     <label className='input-label'>Website</label>
@@ -771,7 +1916,7 @@ const SettingsTab = memo(
                   !canParseIntention(intention) && (
                     <div className='url-error'>
                       <div className='error-text show'>
-                        Enter a website like example.com
+                        {intentionUrlError(intention)}
                       </div>
                     </div>
                   )}
@@ -857,6 +2002,530 @@ const SettingsTab = memo(
                   </button>
                 </div>
               </div>
+
+              {conflictsFor(intention.id).length > 0 && (
+                <ul className='intention-conflicts'>
+                  {conflictsFor(intention.id).map((conflict, j) => (
+                    <li
+                      key={j}
+                      className={`intention-conflict ${conflict.kind}`}
+                      data-testid='intention-conflict'
+                    >
+                      {describeConflict(conflict)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className='intention-options'>
+                <button
+                  className='intention-options-toggle'
+                  data-testid='intention-options-toggle'
+                  aria-expanded={isOptionsExpanded(intention.id)}
+                  onClick={() => toggleOptionsExpanded(intention.id)}
+                >
+                  <span
+                    className={`toggle-icon ${isOptionsExpanded(intention.id) ? 'expanded' : ''}`}
+                    aria-hidden='true'
+                  >
+                    ▼
+                  </span>
+                  Options
+                  {optionsSummary(intention).map(part => ` · ${part}`)}
+                </button>
+
+                {isOptionsExpanded(intention.id) && (
+                  <div className='intention-options-content'>
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>Which pages?</span>
+                        <div
+                          className='setting-help'
+                          aria-label='How the path of the website is matched. With reddit.com/r/news, "everything below it" covers /r/news/comments but not /r/newsokc, while "starting with this text" covers both.'
+                          data-tooltip='How the path of the website is matched. With reddit.com/r/news, "everything below it" covers /r/news/comments but not /r/newsokc, while "starting with this text" covers both.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <div className='radio-group-horizontal'>
+                        {pathMatchOptions.map(({ mode, label }) => (
+                          <label key={mode} className='radio-option'>
+                            <input
+                              data-testid={`path-match-${mode}`}
+                              type='radio'
+                              name={`pathMatch-${intention.id}`}
+                              value={mode}
+                              checked={
+                                (intention.pathMatch ??
+                                  DEFAULT_PATH_MATCH_MODE) === mode
+                              }
+                              onChange={() =>
+                                updateIntentionAt(i, { pathMatch: mode })
+                              }
+                            />
+                            <span className='radio-label'>{label}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>Query and hash</span>
+                        <div
+                          className='setting-help'
+                          aria-label='Whether the part after ? or # in your URLs has to match. With youtube.com/watch?v=abc, "as written" only covers that video, otherwise every video is covered. Add only the parameter name, like youtube.com/results?search_query, to accept any value.'
+                          data-tooltip='Whether the part after ? or # in your URLs has to match. With youtube.com/watch?v=abc, "as written" only covers that video, otherwise every video is covered. Add only the parameter name, like youtube.com/results?search_query, to accept any value.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <div className='radio-group-horizontal'>
+                        {queryMatchOptions.map(({ mode, label }) => (
+                          <label key={mode} className='radio-option'>
+                            <input
+                              data-testid={`query-match-${mode}`}
+                              type='radio'
+                              name={`queryMatch-${intention.id}`}
+                              value={mode}
+                              checked={
+                                (intention.queryMatch ??
+                                  DEFAULT_QUERY_MATCH_MODE) === mode
+                              }
+                              onChange={() =>
+                                updateIntentionAt(i, { queryMatch: mode })
+                              }
+                            />
+                            <span className='radio-label'>{label}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>Session length</span>
+                        <div
+                          className='setting-help'
+                          aria-label='How long the website stays open after you type your intention. When the time is up, its tabs go back to the intention page. It can also be changed on the intention page each time.'
+                          data-tooltip='How long the website stays open after you type your intention. When the time is up, its tabs go back to the intention page. It can also be changed on the intention page each time.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <select
+                        className='session-length-select'
+                        data-testid='session-length'
+                        value={intention.sessionMinutes ?? ''}
+                        onChange={e =>
+                          updateIntentionAt(i, {
+                            sessionMinutes: e.target.value
+                              ? Number(e.target.value)
+                              : undefined,
+                          })
+                        }
+                      >
+                        {[null, ...SESSION_LENGTH_OPTIONS_MINUTES].map(
+                          minutes => (
+                            <option
+                              key={minutes ?? 'none'}
+                              value={minutes ?? ''}
+                            >
+                              {sessionLengthLabel(minutes)}
+                            </option>
+                          )
+                        )}
+                      </select>
+                    </div>
+
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>Daily budget</span>
+                        <div
+                          className='setting-help'
+                          aria-label='How often and how long you can use this website per day. Visits count each time you type your intention, minutes count while one of its tabs is in front. Leave empty for no limit.'
+                          data-tooltip='How often and how long you can use this website per day. Visits count each time you type your intention, minutes count while one of its tabs is in front. Leave empty for no limit.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <div className='daily-budget'>
+                        <label className='daily-budget-field'>
+                          <input
+                            className='daily-budget-input'
+                            data-testid='daily-visit-limit'
+                            type='number'
+                            min='1'
+                            placeholder='–'
+                            value={intention.dailyVisitLimit ?? ''}
+                            onChange={e =>
+                              updateIntentionAt(i, {
+                                dailyVisitLimit: parseDailyLimit(
+                                  e.target.value
+                                ),
+                              })
+                            }
+                          />
+                          visits
+                        </label>
+                        <label className='daily-budget-field'>
+                          <input
+                            className='daily-budget-input'
+                            data-testid='daily-minutes-limit'
+                            type='number'
+                            min='1'
+                            placeholder='–'
+                            value={intention.dailyMinutesLimit ?? ''}
+                            onChange={e =>
+                              updateIntentionAt(i, {
+                                dailyMinutesLimit: parseDailyLimit(
+                                  e.target.value
+                                ),
+                              })
+                            }
+                          />
+                          minutes
+                        </label>
+                      </div>
+                    </div>
+
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>When visiting</span>
+                        <div
+                          className='setting-help'
+                          aria-label='What happens on this site. Only the intention page lets you continue; the others send you elsewhere, close the tab or show a message.'
+                          data-tooltip='What happens on this site. Only the intention page lets you continue; the others send you elsewhere, close the tab or show a message.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <div className='radio-group-horizontal'>
+                        {intentionActionOptions.map(({ kind, label }) => (
+                          <label key={kind} className='radio-option'>
+                            <input
+                              data-testid={`intention-action-${kind}`}
+                              type='radio'
+                              name={`action-${intention.id}`}
+                              value={kind}
+                              checked={
+                                intentionActionOf(intention).kind === kind
+                              }
+                              onChange={() =>
+                                updateIntentionAt(i, {
+                                  action:
+                                    kind === DEFAULT_INTENTION_ACTION.kind
+                                      ? undefined
+                                      : emptyIntentionAction(kind),
+                                })
+                              }
+                            />
+                            <span className='radio-label'>{label}</span>
+                          </label>
+                        ))}
+                      </div>
+                      {intention.action?.kind === 'redirect' && (
+                        <input
+                          className='reflection-question-input'
+                          data-testid='intention-action-url'
+                          type='text'
+                          placeholder='e.g. todoist.com'
+                          value={intention.action.url}
+                          onChange={e =>
+                            updateIntentionAt(i, {
+                              action: { kind: 'redirect', url: e.target.value },
+                            })
+                          }
+                        />
+                      )}
+                      {intention.action?.kind === 'block' && (
+                        <input
+                          className='reflection-question-input'
+                          data-testid='intention-action-message'
+                          type='text'
+                          placeholder={DEFAULT_BLOCK_MESSAGE}
+                          value={intention.action.message}
+                          onChange={e =>
+                            updateIntentionAt(i, {
+                              action: {
+                                kind: 'block',
+                                message: e.target.value,
+                              },
+                            })
+                          }
+                        />
+                      )}
+                    </div>
+
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>Prompt</span>
+                        <div
+                          className='setting-help'
+                          aria-label='Instead of typing the phrase, answer a question in your own words. Answers are saved on this browser and listed under Reflections.'
+                          data-tooltip='Instead of typing the phrase, answer a question in your own words. Answers are saved on this browser and listed under Reflections.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <div className='radio-group-horizontal'>
+                        {promptModeOptions.map(({ mode, label }) => (
+                          <label key={mode} className='radio-option'>
+                            <input
+                              data-testid={`prompt-mode-${mode}`}
+                              type='radio'
+                              name={`promptMode-${intention.id}`}
+                              value={mode}
+                              checked={
+                                (intention.promptMode ??
+                                  DEFAULT_PROMPT_MODE) === mode
+                              }
+                              onChange={() =>
+                                updateIntentionAt(i, { promptMode: mode })
+                              }
+                            />
+                            <span className='radio-label'>{label}</span>
+                          </label>
+                        ))}
+                      </div>
+                      {intention.promptMode === 'reflection' && (
+                        <div className='reflection-fields'>
+                          <input
+                            className='reflection-question-input'
+                            data-testid='reflection-question'
+                            type='text'
+                            placeholder={DEFAULT_REFLECTION_QUESTION}
+                            value={intention.reflectionQuestion ?? ''}
+                            onChange={e =>
+                              updateIntentionAt(i, {
+                                reflectionQuestion:
+                                  e.target.value === ''
+                                    ? undefined
+                                    : e.target.value,
+                              })
+                            }
+                          />
+                          <label className='daily-budget-field'>
+                            At least
+                            <input
+                              className='daily-budget-input'
+                              data-testid='reflection-min-length'
+                              type='number'
+                              min='1'
+                              placeholder={String(
+                                DEFAULT_REFLECTION_MIN_LENGTH
+                              )}
+                              value={intention.reflectionMinLength ?? ''}
+                              onChange={e => {
+                                const minLength = parseInt(e.target.value);
+                                updateIntentionAt(i, {
+                                  reflectionMinLength:
+                                    minLength > 0 ? minLength : undefined,
+                                });
+                              }}
+                            />
+                            characters
+                          </label>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>Guided pause</span>
+                        <div
+                          className='setting-help'
+                          aria-label='Breathe for a while before you can start typing. Leave it on the default to use the guided pause from Advanced Settings.'
+                          data-tooltip='Breathe for a while before you can start typing. Leave it on the default to use the guided pause from Advanced Settings.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <GuidedPauseEditor
+                        pause={intention.guidedPause}
+                        defaultLabel={`Default (${describeGuidedPause(guidedPause)})`}
+                        testIdPrefix='intention-guided-pause'
+                        onChange={pause =>
+                          updateIntentionAt(i, { guidedPause: pause })
+                        }
+                      />
+                    </div>
+
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>More phrases</span>
+                        <div
+                          className='setting-help'
+                          aria-label='Other ways to say your intention. The intention page shows one of them or the main one, so typing it does not turn into muscle memory.'
+                          data-tooltip='Other ways to say your intention. The intention page shows one of them or the main one, so typing it does not turn into muscle memory.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <PhraseListEditor
+                        phrases={intention.additionalPhrases ?? []}
+                        onChange={additionalPhrases =>
+                          updateIntentionAt(i, { additionalPhrases })
+                        }
+                      />
+                      {(intention.additionalPhrases?.length ?? 0) > 0 && (
+                        <div className='radio-group-horizontal'>
+                          {phraseRotationOptions.map(({ mode, label }) => (
+                            <label key={mode} className='radio-option'>
+                              <input
+                                data-testid={`phrase-rotation-${mode}`}
+                                type='radio'
+                                name={`phraseRotation-${intention.id}`}
+                                value={mode}
+                                checked={
+                                  (intention.phraseRotation ??
+                                    DEFAULT_PHRASE_ROTATION) === mode
+                                }
+                                onChange={() =>
+                                  updateIntentionAt(i, { phraseRotation: mode })
+                                }
+                              />
+                              <span className='radio-label'>{label}</span>
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>Schedule</span>
+                        <div
+                          className='setting-help'
+                          aria-label='When this intention applies. For example, only during working hours for a video site, or only outside them for a work chat. Times past midnight, like 22:00–02:00, belong to the day they start on.'
+                          data-tooltip='When this intention applies. For example, only during working hours for a video site, or only outside them for a work chat. Times past midnight, like 22:00–02:00, belong to the day they start on.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <ScheduleEditor
+                        schedule={intention.schedule}
+                        name={`schedule-${intention.id}`}
+                        onChange={schedule =>
+                          updateIntentionAt(i, { schedule })
+                        }
+                      />
+                    </div>
+
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>Language versions</span>
+                        <div
+                          className='setting-help'
+                          aria-label='Whether facebook.de, de.facebook.com and facebook.com/de/ count as facebook.com. "Only clear language versions" ignores short path segments like /no/ or /it/ that might be real paths, but keeps /en-us/. "Exactly as written" turns language versions off.'
+                          data-tooltip='Whether facebook.de, de.facebook.com and facebook.com/de/ count as facebook.com. "Only clear language versions" ignores short path segments like /no/ or /it/ that might be real paths, but keeps /en-us/. "Exactly as written" turns language versions off.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <div className='radio-group-horizontal'>
+                        {languageMatchOptions.map(({ mode, label }) => (
+                          <label key={mode} className='radio-option'>
+                            <input
+                              data-testid={`language-match-${mode}`}
+                              type='radio'
+                              name={`languageMatch-${intention.id}`}
+                              value={mode}
+                              checked={
+                                (intention.languageMatch ??
+                                  DEFAULT_LANGUAGE_MATCH_MODE) === mode
+                              }
+                              onChange={() =>
+                                updateIntentionAt(i, { languageMatch: mode })
+                              }
+                            />
+                            <span className='radio-label'>{label}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>Also applies to</span>
+                        <div
+                          className='setting-help'
+                          aria-label='More websites that share this intention, e.g. x.com and threads.net next to twitter.com. Time spent on any of them counts as one site for inactivity.'
+                          data-tooltip='More websites that share this intention, e.g. x.com and threads.net next to twitter.com. Time spent on any of them counts as one site for inactivity.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <UrlListEditor
+                        urls={intention.additionalUrls ?? []}
+                        onChange={additionalUrls =>
+                          updateIntentionAt(i, { additionalUrls })
+                        }
+                        addLabel='Add website'
+                        placeholder='e.g. x.com'
+                        testId='additional-url'
+                        hostMode={intention.hostMode ?? DEFAULT_HOST_MODE}
+                      />
+                    </div>
+
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>Exceptions</span>
+                        <div
+                          className='setting-help'
+                          aria-label='Pages that open without an intention, even though they are covered by this website. For example, youtube.com/feed/library on a youtube.com intention.'
+                          data-tooltip='Pages that open without an intention, even though they are covered by this website. For example, youtube.com/feed/library on a youtube.com intention.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <UrlListEditor
+                        urls={intention.exceptions ?? []}
+                        onChange={exceptions =>
+                          updateIntentionAt(i, { exceptions })
+                        }
+                        addLabel='Add exception'
+                        placeholder='e.g. youtube.com/feed/library'
+                        testId='exception'
+                        hostMode={intention.hostMode ?? DEFAULT_HOST_MODE}
+                      />
+                    </div>
+
+                    <div className='intention-option'>
+                      <div className='setting-header'>
+                        <span className='setting-text'>Addresses</span>
+                        <div
+                          className='setting-help'
+                          aria-label='Local & private addresses also allow localhost:3000, IP addresses like 192.168.1.10, intranet names and sites on shared domains such as me.github.io or app.vercel.app, where each site is matched on its own.'
+                          data-tooltip='Local & private addresses also allow localhost:3000, IP addresses like 192.168.1.10, intranet names and sites on shared domains such as me.github.io or app.vercel.app, where each site is matched on its own.'
+                        >
+                          ?
+                        </div>
+                      </div>
+                      <div className='radio-group-horizontal'>
+                        {hostModeOptions.map(({ mode, label }) => (
+                          <label key={mode} className='radio-option'>
+                            <input
+                              data-testid={`host-mode-${mode}`}
+                              type='radio'
+                              name={`hostMode-${intention.id}`}
+                              value={mode}
+                              checked={
+                                (intention.hostMode ?? DEFAULT_HOST_MODE) ===
+                                mode
+                              }
+                              onChange={() =>
+                                updateIntentionAt(i, { hostMode: mode })
+                              }
+                            />
+                            <span className='radio-label'>{label}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
             </div>
           ))}
         </div>
@@ -976,6 +2645,15 @@ const SettingsTab = memo(
           </div>
         )}
 
+        {/* 2b. URL Tester */}
+        <UrlTester intentions={intentions} />
+
+        {/* 2c. Pause */}
+        <PausePanel />
+        <SnoozeList intentions={intentions} />
+        <RedirectionStatsPanel intentions={intentions} />
+        <ReflectionList intentions={intentions} onExport={exportReflections} />
+
         {/* 3. Advanced Settings */}
         <div className='advanced-settings'>
           <div
@@ -1144,6 +2822,94 @@ const SettingsTab = memo(
                   Allow small typos when typing your intention
                 </span>
               </label>
+              {fuzzyMatching && (
+                <div className='daily-budget fuzzy-tolerance'>
+                  <select
+                    className='session-length-select'
+                    data-testid='fuzzy-tolerance-kind'
+                    value={fuzzyTolerance.kind}
+                    onChange={e => {
+                      const tolerance: FuzzyTolerance =
+                        e.target.value === 'fixed'
+                          ? { kind: 'fixed', maxDistance: DEFAULT_MAX_DISTANCE }
+                          : { kind: 'scaled' };
+                      setFuzzyTolerance(tolerance);
+                      saveFuzzyTolerance(tolerance);
+                    }}
+                  >
+                    <option value='fixed'>A fixed number of typos</option>
+                    <option value='scaled'>
+                      One typo per {CHARACTERS_PER_EDIT} characters
+                    </option>
+                  </select>
+                  {fuzzyTolerance.kind === 'fixed' && (
+                    <label className='daily-budget-field'>
+                      Up to
+                      <input
+                        className='daily-budget-input'
+                        data-testid='fuzzy-tolerance-max-distance'
+                        type='number'
+                        min='1'
+                        value={fuzzyTolerance.maxDistance}
+                        onChange={e => {
+                          const maxDistance = parseInt(e.target.value);
+                          if (!(maxDistance > 0)) return;
+                          const tolerance: FuzzyTolerance = {
+                            kind: 'fixed',
+                            maxDistance,
+                          };
+                          setFuzzyTolerance(tolerance);
+                          saveFuzzyTolerance(tolerance);
+                        }}
+                      />
+                      typos
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className='setting-group'>
+              <label className='setting-label clickable-setting-item'>
+                <input
+                  type='checkbox'
+                  data-testid='case-insensitive-matching'
+                  checked={caseInsensitiveMatching}
+                  onChange={e => {
+                    const enabled = e.target.checked;
+                    setCaseInsensitiveMatching(enabled);
+                    saveCaseInsensitiveMatching(enabled);
+                  }}
+                />
+                <span className='setting-text'>
+                  Ignore upper and lower case
+                </span>
+              </label>
+            </div>
+
+            <div className='setting-group'>
+              <label className='setting-label clickable-setting-item'>
+                <input
+                  type='checkbox'
+                  data-testid='normalized-matching'
+                  checked={normalizedMatching}
+                  onChange={e => {
+                    const enabled = e.target.checked;
+                    setNormalizedMatching(enabled);
+                    saveNormalizedMatching(enabled);
+                  }}
+                />
+                <span className='setting-text'>
+                  Ignore curly quotes, dashes and extra spaces
+                </span>
+                <div
+                  className='setting-help'
+                  aria-label='Typographic quotes and dashes count as the ones on your keyboard, repeated spaces as one, and accented letters match however they were composed.'
+                  data-tooltip='Typographic quotes and dashes count as the ones on your keyboard, repeated spaces as one, and accented letters match however they were composed.'
+                >
+                  ?
+                </div>
+              </label>
             </div>
 
             <div className='setting-group'>
@@ -1185,6 +2951,219 @@ const SettingsTab = memo(
               </label>
             </div>
 
+            <div className='setting-group'>
+              <div className='setting-label'>
+                <span className='setting-text'>Daily budgets reset at</span>
+                <select
+                  className='session-length-select'
+                  data-testid='budget-reset-hour'
+                  value={budgetResetHour}
+                  onChange={e => {
+                    const hour = Number(e.target.value);
+                    setBudgetResetHour(hour);
+                    saveBudgetResetHour(hour);
+                  }}
+                >
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <option key={hour} value={hour}>
+                      {hourLabel(hour)}
+                    </option>
+                  ))}
+                </select>
+                <div
+                  className='setting-help'
+                  aria-label='When visits and minutes of daily budgets start over. A late hour lets a late night still count as the day before.'
+                  data-tooltip='When visits and minutes of daily budgets start over. A late hour lets a late night still count as the day before.'
+                >
+                  ?
+                </div>
+              </div>
+            </div>
+
+            <div className='setting-group'>
+              <div className='setting-item'>
+                <div className='setting-header'>
+                  <span className='setting-text'>
+                    After "I don't need this", go to
+                  </span>
+                  <div
+                    className='setting-help'
+                    aria-label="Where the I don't need this button on the intention page takes you. A tab opened directly on the site has no previous page, so it is closed instead."
+                    data-tooltip="Where the I don't need this button on the intention page takes you. A tab opened directly on the site has no previous page, so it is closed instead."
+                  >
+                    ?
+                  </div>
+                </div>
+                <div className='radio-group-horizontal'>
+                  {leaveFallbackOptions.map(({ kind, label }) => (
+                    <label key={kind} className='radio-option'>
+                      <input
+                        data-testid={`leave-fallback-${kind}`}
+                        type='radio'
+                        name='leaveFallback'
+                        value={kind}
+                        checked={leaveFallback.kind === kind}
+                        onChange={() =>
+                          updateLeaveFallback(
+                            kind === 'productive-url'
+                              ? { kind, url: '' }
+                              : { kind }
+                          )
+                        }
+                      />
+                      <span className='radio-label'>{label}</span>
+                    </label>
+                  ))}
+                </div>
+                {leaveFallback.kind === 'productive-url' && (
+                  <input
+                    className='reflection-question-input leave-fallback-url'
+                    data-testid='leave-fallback-url'
+                    type='text'
+                    placeholder='e.g. todoist.com'
+                    value={leaveFallback.url}
+                    onChange={e =>
+                      updateLeaveFallback({
+                        kind: 'productive-url',
+                        url: e.target.value,
+                      })
+                    }
+                  />
+                )}
+              </div>
+            </div>
+
+            <div className='setting-group'>
+              <div className='setting-item'>
+                <div className='setting-header'>
+                  <span className='setting-text'>
+                    Guided pause before typing
+                  </span>
+                  <div
+                    className='setting-help'
+                    aria-label='The intention page counts down a few breaths or seconds along with the breathing animation before you can type. Reloading the page does not skip it. Intentions can choose their own pause.'
+                    data-tooltip='The intention page counts down a few breaths or seconds along with the breathing animation before you can type. Reloading the page does not skip it. Intentions can choose their own pause.'
+                  >
+                    ?
+                  </div>
+                </div>
+                <GuidedPauseEditor
+                  pause={guidedPause}
+                  defaultLabel={null}
+                  testIdPrefix='guided-pause'
+                  onChange={pause => {
+                    const next = pause ?? NO_GUIDED_PAUSE;
+                    setGuidedPause(next);
+                    saveGuidedPause(next);
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className='setting-group'>
+              <div className='setting-item'>
+                <div className='setting-header'>
+                  <span className='setting-text'>
+                    Make repeated visits harder
+                  </span>
+                  <div
+                    className='setting-help'
+                    aria-label='Once you completed the same intention this often, each further visit gets harder. Visits older than the chosen time no longer count.'
+                    data-tooltip='Once you completed the same intention this often, each further visit gets harder. Visits older than the chosen time no longer count.'
+                  >
+                    ?
+                  </div>
+                </div>
+                <div className='escalation-settings'>
+                  <label className='daily-budget-field'>
+                    After
+                    <select
+                      className='session-length-select'
+                      data-testid='escalation-after'
+                      value={escalation.afterCompletions ?? ''}
+                      onChange={e =>
+                        updateEscalation({
+                          afterCompletions:
+                            e.target.value === ''
+                              ? null
+                              : Number(e.target.value),
+                        })
+                      }
+                    >
+                      <option value=''>never</option>
+                      {ESCALATION_AFTER_OPTIONS.map(count => (
+                        <option key={count} value={count}>
+                          {count} visits
+                        </option>
+                      ))}
+                    </select>
+                    within
+                    <select
+                      className='session-length-select'
+                      data-testid='escalation-window'
+                      value={escalation.windowMinutes}
+                      disabled={escalation.afterCompletions === null}
+                      onChange={e =>
+                        updateEscalation({
+                          windowMinutes: Number(e.target.value),
+                        })
+                      }
+                    >
+                      {ESCALATION_WINDOW_OPTIONS_MINUTES.map(minutes => (
+                        <option key={minutes} value={minutes}>
+                          {escalationWindowLabel(minutes)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {escalation.afterCompletions !== null && (
+                    <div className='schedule-days'>
+                      {escalationStepOptions.map(({ step, label }) => (
+                        <label key={step} className='schedule-day'>
+                          <input
+                            data-testid={`escalation-step-${step}`}
+                            type='checkbox'
+                            checked={escalation.steps.includes(step)}
+                            onChange={e =>
+                              updateEscalation({
+                                steps: e.target.checked
+                                  ? [...escalation.steps, step]
+                                  : escalation.steps.filter(s => s !== step),
+                              })
+                            }
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                  {escalation.afterCompletions !== null &&
+                    escalation.steps.includes('countdown') && (
+                      <label className='daily-budget-field'>
+                        Wait
+                        <input
+                          className='daily-budget-input'
+                          data-testid='escalation-countdown-seconds'
+                          type='number'
+                          min='1'
+                          value={escalation.countdownSeconds}
+                          onChange={e => {
+                            const seconds = parseInt(e.target.value);
+                            updateEscalation({
+                              countdownSeconds:
+                                seconds > 0
+                                  ? seconds
+                                  : DEFAULT_ESCALATION_POLICY.countdownSeconds,
+                            });
+                          }}
+                        />
+                        seconds longer with each visit
+                      </label>
+                    )}
+                </div>
+              </div>
+            </div>
+
             {/* Breath Intensity Slider - moved to bottom */}
             <div className='setting-group'>
               <div className='setting-item'>
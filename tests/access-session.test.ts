@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+  accessSessionAlarmName,
+  accessSessionAlarmScope,
+  accessSessionEndsAt,
+  isIntentionCompletedMessage,
+  sessionLengthLabel,
+} from '../src/components/access-session';
+import type { IntentionScopeId } from '../src/components/intention';
+import type { Timestamp } from '../src/components/time';
+
+describe('Access sessions', () => {
+  it('should end the chosen number of minutes after starting', () => {
+    expect(accessSessionEndsAt(1_000 as Timestamp, 10)).toBe(601_000);
+  });
+
+  it('should recognize start messages with or without a length', () => {
+    expect(
+      isIntentionCompletedMessage({
+        type: 'intention:completed',
+        intentionScopeId: 'abc',
+        sessionMinutes: 10,
+      })
+    ).toBe(true);
+    expect(
+      isIntentionCompletedMessage({
+        type: 'intention:completed',
+        intentionScopeId: 'abc',
+        sessionMinutes: null,
+      })
+    ).toBe(true);
+    expect(
+      isIntentionCompletedMessage({
+        type: 'intention:completed',
+        sessionMinutes: 10,
+      })
+    ).toBe(false);
+    expect(isIntentionCompletedMessage({ type: 'e2e:setOsIdle' })).toBe(false);
+    expect(isIntentionCompletedMessage(null)).toBe(false);
+  });
+
+  it('should label sessions without a limit', () => {
+    expect(sessionLengthLabel(null)).toBe('Until I leave');
+    expect(sessionLengthLabel(15)).toBe('15 minutes');
+  });
+
+  it('should find the scope of a session alarm', () => {
+    const scopeId = 'abc' as IntentionScopeId;
+    expect(accessSessionAlarmScope(accessSessionAlarmName(scopeId))).toBe(
+      scopeId
+    );
+    expect(accessSessionAlarmScope('intender-resume-after-pause')).toBeNull();
+  });
+});
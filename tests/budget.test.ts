@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addScopeUsage,
+  budgetDay,
+  budgetStatus,
+  dailyBudgetOf,
+  describeUsage,
+  emptyBudgetUsage,
+  isLimitReached,
+  msUntilTimeBudgetEnds,
+  nextBudgetReset,
+  NO_BUDGET,
+  scopeUsage,
+  usageForDay,
+} from '../src/components/budget';
+import {
+  makeRawIntention,
+  type IntentionScopeId,
+} from '../src/components/intention';
+import { minutesToMs } from '../src/components/time';
+
+const scope = 'scope-a' as IntentionScopeId;
+
+describe('Daily budgets', () => {
+  describe('budget days', () => {
+    it('should count the hours before the reset as the previous day', () => {
+      expect(budgetDay(new Date(2025, 2, 14, 3, 59), 4)).toBe('2025-03-13');
+      expect(budgetDay(new Date(2025, 2, 14, 4, 0), 4)).toBe('2025-03-14');
+      expect(budgetDay(new Date(2025, 0, 1, 1, 0), 4)).toBe('2024-12-31');
+      expect(budgetDay(new Date(2025, 2, 14, 0, 0), 0)).toBe('2025-03-14');
+    });
+
+    it('should start over on a new day', () => {
+      const usage = addScopeUsage(emptyBudgetUsage('2025-03-13'), scope, {
+        visits: 2,
+        activeMs: 1000,
+      });
+      expect(usageForDay(usage, '2025-03-13')).toBe(usage);
+      expect(scopeUsage(usageForDay(usage, '2025-03-14'), scope)).toEqual({
+        visits: 0,
+        activeMs: 0,
+      });
+    });
+
+    it('should find the next reset', () => {
+      expect(nextBudgetReset(new Date(2025, 2, 14, 3, 0), 4)).toBe(
+        new Date(2025, 2, 14, 4, 0).getTime()
+      );
+      expect(nextBudgetReset(new Date(2025, 2, 14, 4, 0), 4)).toBe(
+        new Date(2025, 2, 15, 4, 0).getTime()
+      );
+    });
+  });
+
+  describe('status', () => {
+    it('should read limits from the raw intention', () => {
+      const raw = makeRawIntention('example.com', 'read news');
+      expect(dailyBudgetOf(raw)).toEqual(NO_BUDGET);
+      expect(dailyBudgetOf({ ...raw, dailyVisitLimit: 3 })).toEqual({
+        visits: 3,
+        minutes: null,
+      });
+    });
+
+    it('should be unlimited without limits', () => {
+      expect(budgetStatus(NO_BUDGET, { visits: 99, activeMs: 0 })).toEqual({
+        kind: 'unlimited',
+      });
+    });
+
+    it('should report what is left, then which limit ran out', () => {
+      const budget = { visits: 3, minutes: 45 };
+      expect(
+        budgetStatus(budget, { visits: 1, activeMs: minutesToMs(20) })
+      ).toEqual({ kind: 'within', visitsLeft: 2, minutesLeft: 25 });
+      expect(budgetStatus(budget, { visits: 3, activeMs: 0 })).toEqual({
+        kind: 'exhausted',
+        limit: 'visits',
+      });
+      expect(
+        budgetStatus(budget, { visits: 0, activeMs: minutesToMs(45) })
+      ).toEqual({ kind: 'exhausted', limit: 'minutes' });
+    });
+
+    it('should tell each limit apart when both ran out', () => {
+      const budget = { visits: 3, minutes: 45 };
+      const usage = { visits: 3, activeMs: minutesToMs(45) };
+      expect(isLimitReached(budget, usage, 'visits')).toBe(true);
+      expect(isLimitReached(budget, usage, 'minutes')).toBe(true);
+      expect(isLimitReached(budget, { visits: 2, activeMs: 0 }, 'visits')).toBe(
+        false
+      );
+      expect(isLimitReached(NO_BUDGET, usage, 'minutes')).toBe(false);
+    });
+
+    it('should tell how much active time is left', () => {
+      expect(
+        msUntilTimeBudgetEnds(
+          { visits: null, minutes: 10 },
+          { visits: 0, activeMs: minutesToMs(4) }
+        )
+      ).toBe(minutesToMs(6));
+      expect(
+        msUntilTimeBudgetEnds(
+          { visits: null, minutes: 10 },
+          { visits: 0, activeMs: minutesToMs(12) }
+        )
+      ).toBe(0);
+      expect(
+        msUntilTimeBudgetEnds(
+          { visits: 3, minutes: null },
+          scopeUsage(emptyBudgetUsage(''), scope)
+        )
+      ).toBeNull();
+    });
+
+    it('should describe usage against the limits', () => {
+      expect(
+        describeUsage(
+          { visits: 3, minutes: 45 },
+          { visits: 2, activeMs: minutesToMs(20) + 30_000 }
+        )
+      ).toBe('2 of 3 visits · 20 of 45 min');
+      expect(
+        describeUsage(
+          { visits: null, minutes: 10 },
+          { visits: 0, activeMs: minutesToMs(15) }
+        )
+      ).toBe('10 of 10 min');
+    });
+  });
+});
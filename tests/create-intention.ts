@@ -0,0 +1,24 @@
+import {
+  parseIntention,
+  type Intention,
+  type RawIntention,
+} from '../src/components/intention';
+import { generateUUID } from '../src/components/uuid';
+
+// Parses an intention the way stored ones are, failing the test on bad URLs
+export function createIntention(
+  url: string,
+  phrase: string,
+  extra: Partial<RawIntention>
+): Intention {
+  const intention = parseIntention({
+    id: generateUUID(),
+    url,
+    phrase,
+    ...extra,
+  });
+  if (!intention) {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+  return intention;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addCompletion,
+  DEFAULT_ESCALATION_POLICY,
+  escalatedPhrase,
+  escalationFor,
+  MAX_COUNTDOWN_SECONDS,
+  NO_ESCALATION,
+  recentCompletionCount,
+  type EscalationPolicy,
+  type RecentCompletions,
+} from '../src/components/escalation';
+import type { IntentionScopeId } from '../src/components/intention';
+import type { Timestamp } from '../src/components/time';
+
+const news = 'news' as IntentionScopeId;
+const videos = 'videos' as IntentionScopeId;
+const noon = new Date(2025, 2, 14, 12, 0);
+const minutesBeforeNoon = (minutes: number) =>
+  (noon.getTime() - minutes * 60 * 1000) as Timestamp;
+
+const policy: EscalationPolicy = {
+  afterCompletions: 4,
+  windowMinutes: 60,
+  steps: ['countdown', 'longer-phrase'],
+  countdownSeconds: 10,
+};
+
+describe('Escalating friction', () => {
+  it('should count completions per scope within the rolling window', () => {
+    const completions = {
+      [news]: [
+        minutesBeforeNoon(90),
+        minutesBeforeNoon(50),
+        minutesBeforeNoon(5),
+      ],
+      [videos]: [minutesBeforeNoon(5)],
+    } as RecentCompletions;
+    expect(recentCompletionCount(completions, news, 60, noon)).toBe(2);
+    expect(recentCompletionCount(completions, news, 120, noon)).toBe(3);
+    expect(recentCompletionCount(completions, videos, 60, noon)).toBe(1);
+    expect(
+      recentCompletionCount(completions, 'other' as IntentionScopeId, 60, noon)
+    ).toBe(0);
+  });
+
+  it('should forget completions older than the longest window', () => {
+    const completions = addCompletion(
+      {
+        [news]: [minutesBeforeNoon(2000), minutesBeforeNoon(30)],
+        [videos]: [minutesBeforeNoon(2000)],
+      } as RecentCompletions,
+      news,
+      noon
+    );
+    expect(completions).toEqual({
+      [news]: [minutesBeforeNoon(30), noon.getTime()],
+    });
+  });
+
+  it('should start with the visit after afterCompletions', () => {
+    expect(escalationFor(policy, 3)).toEqual(NO_ESCALATION);
+    expect(escalationFor(policy, 4)).toEqual({
+      level: 1,
+      countdownSeconds: 10,
+      longerPhrase: true,
+      strictMatching: false,
+    });
+    expect(escalationFor(policy, 6).countdownSeconds).toBe(30);
+    expect(escalationFor(policy, 100).countdownSeconds).toBe(
+      MAX_COUNTDOWN_SECONDS
+    );
+  });
+
+  it('should stay off by default', () => {
+    expect(escalationFor(DEFAULT_ESCALATION_POLICY, 100)).toEqual(
+      NO_ESCALATION
+    );
+  });
+
+  it('should lengthen the phrase with the visit count', () => {
+    expect(escalatedPhrase('I want to read the news', 4, 60)).toBe(
+      'I want to read the news, even though this is visit 5 within the last hour'
+    );
+  });
+});
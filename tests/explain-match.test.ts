@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createIntentionIndex,
+  explainMatch,
+  lookupActiveIntention,
+  lookupIntention,
+} from '../src/components/intention';
+import { createIntention } from './create-intention';
+
+describe('explainMatch', () => {
+  const facebook = createIntention('facebook.com', 'facebook', {});
+  const groups = createIntention('facebook.com/groups', 'groups', {
+    exceptions: ['facebook.com/groups/work'],
+  });
+  const mail = createIntention('mail.google.com', 'mail', {});
+  const intentions = [facebook, groups, mail];
+
+  it('should pick the same winner as lookupIntention', () => {
+    const index = createIntentionIndex(intentions);
+    for (const url of [
+      'https://facebook.com/groups/abc',
+      'https://facebook.se/groups/work',
+      'https://m.facebook.com',
+      'https://mail.google.com/inbox',
+      'https://google.com',
+    ]) {
+      expect(
+        explainMatch(url, intentions, null).winner?.intention ?? null
+      ).toBe(lookupIntention(url, index));
+    }
+  });
+
+  it('should list candidates on the target site, most specific first', () => {
+    const explanation = explainMatch(
+      'https://facebook.com/groups/abc',
+      intentions,
+      null
+    );
+    expect(explanation.candidates.map(c => c.intention.phrase)).toEqual([
+      'groups',
+      'facebook',
+    ]);
+    expect(explanation.winner?.intention).toBe(groups);
+  });
+
+  it('should explain language tolerance in the suffix step', () => {
+    const explanation = explainMatch('https://facebook.de/', intentions, null);
+    const suffix = explanation.winner?.steps.find(s => s.step === 'suffix');
+    expect(suffix).toMatchObject({ passed: true });
+    expect(suffix?.detail).toMatch(/language suffix/);
+  });
+
+  it('should report the failing step', () => {
+    const explanation = explainMatch(
+      'https://m.facebook.com/',
+      intentions,
+      null
+    );
+    expect(explanation.winner).toBeNull();
+    const steps = explanation.candidates[0].steps;
+    expect(steps[steps.length - 1]).toMatchObject({
+      step: 'subdomain',
+      passed: false,
+    });
+  });
+
+  it('should report language stripping on the path', () => {
+    const explanation = explainMatch(
+      'https://facebook.com/en/groups/abc',
+      intentions,
+      null
+    );
+    expect(explanation.winner?.intention).toBe(groups);
+    expect(explanation.winner?.steps.map(s => s.step)).toContain('language');
+  });
+
+  it('should report exceptions that exclude a candidate', () => {
+    const explanation = explainMatch(
+      'https://facebook.com/groups/work',
+      intentions,
+      null
+    );
+    const groupsCandidate = explanation.candidates.find(
+      c => c.intention === groups
+    );
+    expect(groupsCandidate?.matched).toBe(false);
+    expect(groupsCandidate?.steps.at(-1)).toMatchObject({
+      step: 'exception',
+      passed: false,
+    });
+    expect(explanation.winner?.intention).toBe(facebook);
+  });
+
+  it('should skip candidates outside their schedule, like the background', () => {
+    const music = createIntention('youtube.com/music', 'music', {
+      schedule: {
+        mode: 'during',
+        days: [1, 2, 3, 4, 5],
+        ranges: [{ start: '09:00', end: '17:00' }],
+        timeZone: 'UTC',
+      },
+    });
+    const videos = createIntention('youtube.com', 'videos', {});
+    const scheduled = [music, videos];
+    const index = createIntentionIndex(scheduled);
+    const url = 'https://youtube.com/music/x';
+
+    for (const now of [
+      new Date('2026-10-16T10:00:00Z'),
+      new Date('2026-10-16T20:00:00Z'),
+    ]) {
+      expect(explainMatch(url, scheduled, now).winner?.intention ?? null).toBe(
+        lookupActiveIntention(url, index, now)
+      );
+    }
+
+    const evening = explainMatch(
+      url,
+      scheduled,
+      new Date('2026-10-16T20:00:00Z')
+    );
+    expect(evening.winner?.intention).toBe(videos);
+    expect(evening.candidates[0].steps.at(-1)).toMatchObject({
+      step: 'schedule',
+      passed: false,
+    });
+    expect(explainMatch(url, scheduled, null).winner?.intention).toBe(music);
+  });
+});
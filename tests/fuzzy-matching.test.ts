@@ -2,8 +2,15 @@ import { faker } from '@faker-js/faker';
 import fc from 'fast-check';
 import { describe, expect, it } from 'vitest';
 import {
+  DEFAULT_FUZZY_TOLERANCE,
+  EXACT_TOLERANCE,
   fuzzyMatch,
   fuzzyPartialMatch,
+  matchesPhrase,
+  matchesPhrasePrefix,
+  maxDistanceFor,
+  normalizeForMatching,
+  type PhraseMatchOptions,
 } from '../src/components/fuzzy-matching';
 
 describe('fuzzyMatch', () => {
@@ -202,3 +209,112 @@ describe('fuzzyPartialMatch', () => {
     expect(result2).toBe(true);
   });
 });
+
+describe('phrase matching options', () => {
+  const plain: PhraseMatchOptions = {
+    tolerance: EXACT_TOLERANCE,
+    caseInsensitive: false,
+    normalizeText: false,
+  };
+
+  describe('tolerance', () => {
+    it('should scale with the phrase length', () => {
+      expect(maxDistanceFor({ kind: 'scaled' }, 'short')).toBe(1);
+      expect(
+        maxDistanceFor({ kind: 'scaled' }, 'I want to check my email')
+      ).toBe(2);
+      expect(maxDistanceFor({ kind: 'scaled' }, 'x'.repeat(60))).toBe(5);
+    });
+
+    it('should keep forgiving two typos unless scaling is chosen', () => {
+      expect(DEFAULT_FUZZY_TOLERANCE).toEqual({
+        kind: 'fixed',
+        maxDistance: 2,
+      });
+      expect(maxDistanceFor(DEFAULT_FUZZY_TOLERANCE, 'short')).toBe(2);
+    });
+
+    it('should use a fixed distance when set', () => {
+      expect(
+        maxDistanceFor({ kind: 'fixed', maxDistance: 3 }, 'x'.repeat(60))
+      ).toBe(3);
+      const options = {
+        ...plain,
+        tolerance: { kind: 'fixed', maxDistance: 1 },
+      } as const;
+      expect(
+        matchesPhrase(
+          'I want to chek my email',
+          'I want to check my email',
+          options
+        )
+      ).toBe(true);
+      expect(
+        matchesPhrase(
+          'I want to chek my emal',
+          'I want to check my email',
+          options
+        )
+      ).toBe(false);
+    });
+
+    it('should only accept the exact phrase without tolerance', () => {
+      expect(matchesPhrase('I want this', 'I want this', plain)).toBe(true);
+      expect(matchesPhrase('I want thiss', 'I want this', plain)).toBe(false);
+      expect(matchesPhrasePrefix('I want', 'I want this', plain)).toBe(true);
+      expect(matchesPhrasePrefix('I wnt', 'I want this', plain)).toBe(false);
+    });
+  });
+
+  describe('case insensitivity', () => {
+    const options = { ...plain, caseInsensitive: true };
+
+    it('should ignore case only when enabled', () => {
+      expect(matchesPhrase('i WANT this', 'I want this', options)).toBe(true);
+      expect(matchesPhrasePrefix('i WANT', 'I want this', options)).toBe(true);
+      expect(matchesPhrase('i WANT this', 'I want this', plain)).toBe(false);
+    });
+  });
+
+  describe('text normalization', () => {
+    const options = { ...plain, normalizeText: true };
+
+    it('should treat composed and decomposed accents alike', () => {
+      const composed = 'caf\u00e9 time';
+      const decomposed = 'cafe\u0301 time';
+      expect(matchesPhrase(decomposed, composed, options)).toBe(true);
+      expect(matchesPhrase(decomposed, composed, plain)).toBe(false);
+    });
+
+    it('should fold typographic quotes and dashes', () => {
+      expect(
+        normalizeForMatching(
+          '\u201cIt\u2019s fine\u201d \u2014 really',
+          options
+        )
+      ).toBe('"It\'s fine" - really');
+      expect(matchesPhrase("It's fine", 'It\u2019s fine', options)).toBe(true);
+      expect(matchesPhrase("It's fine", 'It\u2019s fine', plain)).toBe(false);
+    });
+
+    it('should collapse repeated and surrounding whitespace', () => {
+      expect(matchesPhrase('  I  want\tthis ', 'I want this', options)).toBe(
+        true
+      );
+      expect(matchesPhrasePrefix('I  want ', 'I want this', options)).toBe(
+        true
+      );
+      expect(matchesPhrase('I  want this', 'I want this', plain)).toBe(false);
+    });
+
+    it('should keep case unless case insensitivity is enabled too', () => {
+      expect(matchesPhrase('i want this', 'I want this', options)).toBe(false);
+      expect(
+        matchesPhrase('i  want this', 'I want this', {
+          ...options,
+          caseInsensitive: true,
+        })
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BREATH_CYCLE_MS,
+  breathPhase,
+  describeRemaining,
+  effectivePause,
+  finishPause,
+  guidedPauseMs,
+  NO_GUIDED_PAUSE,
+  resumeOrStartPause,
+  type GuidedPauses,
+} from '../src/components/guided-pause';
+import type { IntentionScopeId } from '../src/components/intention';
+import type { Timestamp } from '../src/components/time';
+
+const news = 'news' as IntentionScopeId;
+const noon = new Date(2025, 2, 14, 12, 0);
+const secondsAfterNoon = (seconds: number) =>
+  (noon.getTime() + seconds * 1000) as Timestamp;
+
+describe('Guided pauses', () => {
+  it('should last a number of breath cycles or seconds', () => {
+    expect(guidedPauseMs(NO_GUIDED_PAUSE)).toBe(0);
+    expect(guidedPauseMs({ kind: 'breaths', count: 3 })).toBe(
+      3 * BREATH_CYCLE_MS
+    );
+    expect(guidedPauseMs({ kind: 'seconds', seconds: 20 })).toBe(20_000);
+  });
+
+  it('should prefer the intention pause over the global one', () => {
+    const global = { kind: 'seconds', seconds: 20 } as const;
+    expect(effectivePause(undefined, global)).toBe(global);
+    expect(effectivePause(NO_GUIDED_PAUSE, global)).toBe(NO_GUIDED_PAUSE);
+  });
+
+  it('should resume a running pause after a reload', () => {
+    const ongoing = {
+      startedAt: secondsAfterNoon(0),
+      endsAt: secondsAfterNoon(30),
+    };
+    const pauses = { [news]: ongoing } as GuidedPauses;
+    expect(
+      resumeOrStartPause(pauses, news, 30_000, new Date(secondsAfterNoon(10)))
+    ).toBe(ongoing);
+    expect(
+      resumeOrStartPause(pauses, news, 30_000, new Date(secondsAfterNoon(40)))
+    ).toEqual({
+      startedAt: secondsAfterNoon(40),
+      endsAt: secondsAfterNoon(70),
+    });
+    expect(finishPause(pauses, news)).toEqual({});
+  });
+
+  it('should follow the phases of the breathe keyframes', () => {
+    expect(breathPhase(0)).toBe('in');
+    expect(breathPhase(4000)).toBe('hold');
+    expect(breathPhase(6000)).toBe('out');
+    expect(breathPhase(9000)).toBe('rest');
+    expect(breathPhase(BREATH_CYCLE_MS + 1000)).toBe('in');
+  });
+
+  it('should count down the way the pause was chosen', () => {
+    expect(describeRemaining({ kind: 'breaths', count: 3 }, 25_000)).toBe(
+      '3 breaths left'
+    );
+    expect(describeRemaining({ kind: 'breaths', count: 3 }, 5_000)).toBe(
+      '1 breath left'
+    );
+    expect(describeRemaining({ kind: 'seconds', seconds: 30 }, 11_200)).toBe(
+      '12s left'
+    );
+  });
+});
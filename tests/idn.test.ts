@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createIntentionIndex,
+  lookupIntention,
+  parseUrlToScope,
+  viewScope,
+} from '../src/components/intention';
+import {
+  toAsciiHostname,
+  toUnicodeHostname,
+  toUnicodeUrl,
+} from '../src/components/idn';
+import { createIntention } from './create-intention';
+
+describe('Internationalized domain names', () => {
+  describe('hostname conversion', () => {
+    it('should convert between Unicode and punycode', () => {
+      expect(toAsciiHostname('Bücher.de')).toBe('xn--bcher-kva.de');
+      expect(toUnicodeHostname('xn--bcher-kva.de')).toBe('bücher.de');
+      expect(toUnicodeHostname('www.xn--mnchen-3ya.de')).toBe('www.münchen.de');
+      expect(toUnicodeHostname('xn--fiqs8s.cn')).toBe('中国.cn');
+      expect(toUnicodeHostname('xn--ls8h.la')).toBe('💩.la');
+    });
+
+    it('should leave ASCII and invalid punycode labels alone', () => {
+      expect(toUnicodeHostname('example.com')).toBe('example.com');
+      expect(toUnicodeHostname('xn--.com')).toBe('xn--.com');
+      expect(toUnicodeHostname('xn--a€b.com')).toBe('xn--a€b.com');
+    });
+
+    it('should only convert the host of a URL string', () => {
+      expect(toUnicodeUrl('https://xn--bcher-kva.de/xn--a?q=1#h')).toBe(
+        'https://bücher.de/xn--a?q=1#h'
+      );
+      expect(toUnicodeUrl('*.xn--bcher-kva.de/x')).toBe('*.bücher.de/x');
+      expect(toUnicodeUrl('/xn--bcher/')).toBe('/xn--bcher/');
+    });
+  });
+
+  describe('matching', () => {
+    it('should parse both forms into the same scope', () => {
+      const unicode = parseUrlToScope('bücher.de/krimi', 'public');
+      const punycode = parseUrlToScope('xn--bcher-kva.de/krimi', 'public');
+      expect(unicode).not.toBeNull();
+      expect({ ...unicode, originalUrl: '' }).toEqual({
+        ...punycode,
+        originalUrl: '',
+      });
+    });
+
+    it('should match navigation in either form', () => {
+      for (const url of ['bücher.de', 'xn--bcher-kva.de', '*.bücher.de']) {
+        const intention = createIntention(url, 'books', {});
+        const index = createIntentionIndex([intention]);
+        expect(lookupIntention('https://xn--bcher-kva.de/a', index)).toBe(
+          intention
+        );
+        expect(lookupIntention('https://bücher.de/a', index)).toBe(intention);
+      }
+    });
+
+    it('should show scopes in Unicode', () => {
+      expect(
+        viewScope(createIntention('xn--bcher-kva.de/a', 'x', {}).scope)
+      ).toMatch(/^bücher/);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { RawIntention } from '../src/components/intention';
+import {
+  blockMessageOf,
+  DEFAULT_BLOCK_MESSAGE,
+  DEFAULT_INTENTION_ACTION,
+  describeIntentionAction,
+  intentionActionOf,
+  redirectUrlOf,
+} from '../src/components/intention-action';
+import { toWebUrl } from '../src/components/normalized-url';
+import { generateUUID } from '../src/components/uuid';
+
+const intention: RawIntention = {
+  id: generateUUID(),
+  url: 'news.example.com',
+  phrase: 'I want to read the news',
+};
+
+describe('Intention actions', () => {
+  it('should show the intention page unless another action is chosen', () => {
+    expect(intentionActionOf(intention)).toEqual(DEFAULT_INTENTION_ACTION);
+    expect(
+      intentionActionOf({ ...intention, action: { kind: 'close-tab' } })
+    ).toEqual({ kind: 'close-tab' });
+  });
+
+  it('should redirect to web URLs only', () => {
+    expect(redirectUrlOf({ kind: 'redirect', url: ' todoist.com ' })).toBe(
+      'https://todoist.com'
+    );
+    expect(
+      redirectUrlOf({ kind: 'redirect', url: 'http://localhost:3000/app' })
+    ).toBe('http://localhost:3000/app');
+    expect(redirectUrlOf({ kind: 'redirect', url: '' })).toBeNull();
+    expect(
+      redirectUrlOf({ kind: 'redirect', url: 'javascript:alert(1)' })
+    ).toBeNull();
+  });
+
+  it('should fall back to the default block message', () => {
+    expect(blockMessageOf({ kind: 'block', message: '  ' })).toBe(
+      DEFAULT_BLOCK_MESSAGE
+    );
+    expect(blockMessageOf({ kind: 'block', message: 'Not today.' })).toBe(
+      'Not today.'
+    );
+  });
+
+  it('should describe each action for the summary', () => {
+    expect(
+      describeIntentionAction({ kind: 'redirect', url: 'todoist.com' })
+    ).toBe('redirects to todoist.com');
+    expect(describeIntentionAction({ kind: 'close-tab' })).toBe(
+      'closes the tab'
+    );
+    expect(describeIntentionAction({ kind: 'block', message: '' })).toBe(
+      'blocked'
+    );
+  });
+});
+
+describe('toWebUrl', () => {
+  it('should reject URLs that are not http or https', () => {
+    expect(toWebUrl('ftp://example.com')).toBeNull();
+    expect(toWebUrl('about:blank')).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  intentionScopes,
+  matchesIntentionScopeIgnoringDomain,
+  type Intention,
+} from '../src/components/intention';
+import {
+  findCoveringIntention,
+  findScopeConflicts,
+  representativeUrl,
+} from '../src/components/intention-conflicts';
+import { createIntention } from './create-intention';
+
+describe('Intention conflicts', () => {
+  describe('representativeUrl', () => {
+    it('should build a URL the scope itself matches', () => {
+      for (const [url, extra] of [
+        ['reddit.com/r/news', {}],
+        ['*.reddit.com/r/*/top', {}],
+        ['reddit.*/r/**', {}],
+        ['youtube.com/watch?v', {}],
+        ['app.example.com/#/inbox', {}],
+        ['localhost:3000/admin', { hostMode: 'local-and-private' }],
+      ] as const) {
+        const scope = createIntention(url, 'x', extra).scope;
+        if (scope.kind !== 'url') throw new Error('Expected a URL scope');
+        expect(
+          matchesIntentionScopeIgnoringDomain(representativeUrl(scope), scope)
+        ).toBe(true);
+      }
+    });
+  });
+
+  describe('findScopeConflicts', () => {
+    it('should report duplicates and the scope they shadow', () => {
+      const google = createIntention('google.com', 'search', {});
+      const googleSe = createIntention('google.se', 'sök', {});
+
+      expect(findScopeConflicts([google, googleSe])).toEqual([
+        expect.objectContaining({
+          kind: 'duplicate',
+          intentionId: google.id,
+          otherIntentionId: googleSe.id,
+        }),
+        expect.objectContaining({
+          kind: 'shadowed',
+          intentionId: googleSe.id,
+          otherIntentionId: google.id,
+          otherScopeUrl: 'google.com',
+        }),
+      ]);
+    });
+
+    it('should report scopes inside broader scopes as overlapping', () => {
+      const reddit = createIntention('reddit.com', 'reddit', {});
+      const news = createIntention('reddit.com/r/news', 'news', {});
+
+      expect(findScopeConflicts([reddit, news])).toEqual([
+        expect.objectContaining({
+          kind: 'overlapping',
+          intentionId: news.id,
+          otherIntentionId: reddit.id,
+        }),
+      ]);
+    });
+
+    it('should respect exceptions and additional URLs', () => {
+      const reddit = createIntention('reddit.com', 'reddit', {
+        exceptions: ['reddit.com/r/news'],
+      });
+      const news = createIntention('reddit.com/r/news', 'news', {});
+      expect(findScopeConflicts([reddit, news])).toEqual([]);
+
+      const social = createIntention('twitter.com', 'social', {
+        additionalUrls: ['x.com'],
+      });
+      const x = createIntention('x.com', 'x', {});
+      expect(
+        findScopeConflicts([social, x]).map(conflict => conflict.kind)
+      ).toEqual(['duplicate', 'shadowed']);
+    });
+
+    it('should not compare scopes of the same intention or other sites', () => {
+      const intention = createIntention('reddit.com', 'reddit', {
+        additionalUrls: ['reddit.com/r/news'],
+      });
+      const github = createIntention('github.com', 'code', {});
+      expect(intentionScopes(intention)).toHaveLength(2);
+      expect(findScopeConflicts([intention, github])).toEqual([]);
+    });
+  });
+
+  describe('findCoveringIntention', () => {
+    it('should find the intention already used on the new pages', () => {
+      const google = createIntention('google.com', 'search', {});
+      const news = createIntention('reddit.com/r/news', 'news', {});
+
+      expect(
+        findCoveringIntention(createIntention('google.se', 'x', {}), [
+          google,
+          news,
+        ])
+      ).toBe(google);
+      expect(
+        findCoveringIntention(createIntention('reddit.com', 'x', {}), [
+          google,
+          news,
+        ])
+      ).toBeNull();
+    });
+  });
+});
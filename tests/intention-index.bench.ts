@@ -0,0 +1,73 @@
+import { bench, describe } from 'vitest';
+import {
+  createIntentionIndex,
+  intentionScopes,
+  lookupIntention,
+  matchesIntentionScopeIgnoringDomain,
+  parseIntention,
+  parseTarget,
+  type Intention,
+  type IntentionScope,
+} from '../src/components/intention';
+import { generateUUID } from '../src/components/uuid';
+
+// Run with `pnpm bench`. Compares the trie index with a scan that re-parses
+// the target for every scope of the target's domain (the previous approach).
+
+function makeIntentions(): Intention[] {
+  const urls: string[] = [];
+  for (let i = 0; i < 300; i++) {
+    urls.push(`reddit.com/r/sub${i}`);
+  }
+  for (let i = 0; i < 200; i++) {
+    urls.push(`site${i}.com`, `docs.site${i}.org/guide/*`);
+  }
+  return urls
+    .map(url => parseIntention({ id: generateUUID(), url, phrase: url }))
+    .filter((intention): intention is Intention => intention !== null);
+}
+
+const intentions = makeIntentions();
+const index = createIntentionIndex(intentions);
+
+const byDomain = new Map<string, IntentionScope[]>();
+for (const intention of intentions) {
+  for (const scope of intentionScopes(intention)) {
+    if (scope.kind !== 'url') continue;
+    byDomain.set(scope.domain, [...(byDomain.get(scope.domain) ?? []), scope]);
+  }
+}
+
+function scanLookup(targetUrl: string): IntentionScope | null {
+  const domain = parseTarget(targetUrl).byHostMode.public?.components.domain;
+  const scopes = domain ? (byDomain.get(domain) ?? []) : [];
+  return (
+    scopes.find(scope =>
+      matchesIntentionScopeIgnoringDomain(targetUrl, scope)
+    ) ?? null
+  );
+}
+
+const targets = [
+  'https://www.reddit.com/r/sub299/comments/abc',
+  'https://old.reddit.com/r/unknown',
+  'https://site150.com/some/page',
+  'https://docs.site7.org/guide/setup',
+  'https://example.com/not/indexed',
+];
+
+describe('lookup with 700 scopes', () => {
+  bench('trie index', () => {
+    for (const target of targets) lookupIntention(target, index);
+  });
+
+  bench('domain map + per-scope parsing', () => {
+    for (const target of targets) scanLookup(target);
+  });
+});
+
+describe('index creation', () => {
+  bench('createIntentionIndex', () => {
+    createIntentionIndex(intentions);
+  });
+});
@@ -0,0 +1,153 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import {
+  createIntentionIndex,
+  intentionScopes,
+  lookupIntention,
+  matchesAnyException,
+  matchesParsedTarget,
+  parseIntention,
+  parseTarget,
+  type Intention,
+  type LanguageMatchMode,
+  type PathMatchMode,
+} from '../src/components/intention';
+import { generateUUID } from '../src/components/uuid';
+
+// Reference implementation: check every scope, most specific first
+function linearLookup(
+  targetUrl: string,
+  intentions: Intention[]
+): Intention | null {
+  const target = parseTarget(targetUrl);
+  const entries = intentions
+    .flatMap(intention =>
+      intentionScopes(intention).map(scope => ({ scope, intention }))
+    )
+    .map((entry, order) => ({ ...entry, order }))
+    .filter(({ scope }) => scope.kind === 'url')
+    .sort(
+      (a, b) =>
+        (b.scope.kind === 'url' ? b.scope.urlLength : 0) -
+          (a.scope.kind === 'url' ? a.scope.urlLength : 0) || a.order - b.order
+    );
+
+  const match = entries.find(
+    ({ scope, intention }) =>
+      scope.kind === 'url' &&
+      target.byHostMode[scope.hostMode]?.components.domain === scope.domain &&
+      matchesParsedTarget(target, scope) &&
+      !matchesAnyException(target, intention.exceptions)
+  );
+  return match ? match.intention : null;
+}
+
+describe('Intention index', () => {
+  const hostArb = fc.constantFrom(
+    'reddit.com',
+    'reddit.de',
+    'en.reddit.com',
+    'old.reddit.com',
+    'a.old.reddit.com',
+    '*.reddit.com',
+    'reddit.*',
+    'github.com',
+    'me.github.io'
+  );
+  const pathArb = fc.constantFrom(
+    '',
+    '/r',
+    '/r/news',
+    '/r/new',
+    '/en/r/news',
+    '/r/*',
+    '/r/**/top',
+    '/r/news?sort=top'
+  );
+  const modeArb = fc.constantFrom<PathMatchMode>('segment', 'prefix', 'exact');
+  const languageArb = fc.constantFrom<LanguageMatchMode>(
+    'loose',
+    'strict',
+    'off'
+  );
+
+  const intentionArb = fc
+    .record({
+      host: hostArb,
+      path: pathArb,
+      pathMatch: modeArb,
+      languageMatch: languageArb,
+      exceptionPath: fc.option(pathArb, { nil: undefined }),
+    })
+    .map(({ host, path, pathMatch, languageMatch, exceptionPath }) =>
+      parseIntention({
+        id: generateUUID(),
+        url: host + path,
+        phrase: `${host}${path} ${pathMatch}`,
+        pathMatch,
+        languageMatch,
+        exceptions:
+          exceptionPath === undefined ? [] : [`${host}${exceptionPath}/x`],
+      })
+    )
+    .filter((intention): intention is Intention => intention !== null);
+
+  const targetArb = fc
+    .record({
+      host: fc.constantFrom(
+        'reddit.com',
+        'www.reddit.com',
+        'reddit.se',
+        'fr.reddit.com',
+        'old.reddit.com',
+        'a.old.reddit.com',
+        'github.com',
+        'me.github.io'
+      ),
+      path: fc.constantFrom(
+        '',
+        '/r',
+        '/r/news',
+        '/r/newsokc',
+        '/en/r/news',
+        '/en-us/r/news',
+        '/r/news/top',
+        '/r/a/b/top',
+        '/r/news/x'
+      ),
+      query: fc.constantFrom('', '?sort=top', '?sort=new'),
+    })
+    .map(({ host, path, query }) => `https://${host}${path}${query}`);
+
+  it('should return the same intention as checking every scope', () => {
+    fc.assert(
+      fc.property(
+        fc.array(intentionArb, { maxLength: 12 }),
+        targetArb,
+        (intentions, targetUrl) => {
+          const index = createIntentionIndex(intentions);
+          expect(lookupIntention(targetUrl, index)).toBe(
+            linearLookup(targetUrl, intentions)
+          );
+        }
+      ),
+      { numRuns: 500 }
+    );
+  });
+
+  it('should only store scopes below their site name and subdomain', () => {
+    const intention = parseIntention({
+      id: generateUUID(),
+      url: 'mail.google.com/u/0',
+      phrase: 'mail',
+    })!;
+    const index = createIntentionIndex([intention]);
+
+    const google = index.byHostMode.public.children.get('google');
+    expect(google?.children.has('mail')).toBe(true);
+    expect(lookupIntention('https://mail.google.com/u/0/inbox', index)).toBe(
+      intention
+    );
+    expect(lookupIntention('https://google.com/u/0', index)).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeIntentionTrigger,
+  parseIntentionTrigger,
+  triggerForBlock,
+} from '../src/components/intention-trigger';
+import { displayUrl, siteName } from '../src/components/normalized-url';
+
+describe('Intention page triggers', () => {
+  it('should read the trigger from the page URL', () => {
+    expect(parseIntentionTrigger('inactivity')).toBe('inactivity');
+    expect(parseIntentionTrigger('session-ended')).toBe('session-ended');
+    expect(parseIntentionTrigger('budget-exhausted')).toBe('budget-exhausted');
+  });
+
+  it('should count missing or unknown triggers as navigation', () => {
+    expect(parseIntentionTrigger(null)).toBe('navigation');
+    expect(parseIntentionTrigger('bogus')).toBe('navigation');
+  });
+
+  it('should name the reason a navigation was blocked', () => {
+    expect(triggerForBlock('matched-scope')).toBe('navigation');
+    expect(triggerForBlock('session-ended')).toBe('session-ended');
+    expect(triggerForBlock('budget-exhausted')).toBe('budget-exhausted');
+  });
+
+  it('should describe each trigger', () => {
+    expect(describeIntentionTrigger('navigation')).toBe('You opened this site');
+    expect(describeIntentionTrigger('inactivity')).toBe(
+      'You came back after a while away'
+    );
+    expect(describeIntentionTrigger('session-ended')).toBe(
+      'Your session on this site is over'
+    );
+    expect(describeIntentionTrigger('budget-exhausted')).toBe(
+      "You used up today's budget for this site"
+    );
+  });
+});
+
+describe('Target display', () => {
+  it('should strip www and public suffixes from the site name', () => {
+    expect(siteName(new URL('https://www.youtube.com/watch?v=1'))).toBe(
+      'youtube'
+    );
+    expect(siteName(new URL('https://www.bbc.co.uk/news'))).toBe('bbc');
+    expect(siteName(new URL('https://news.ycombinator.com'))).toBe(
+      'news.ycombinator'
+    );
+    expect(siteName(new URL('https://example.software'))).toBe('example');
+  });
+
+  it('should keep hosts without a site name whole', () => {
+    expect(siteName(new URL('http://localhost:3000/app'))).toBe('localhost');
+    expect(siteName(new URL('http://192.168.1.1/admin'))).toBe('192.168.1.1');
+  });
+
+  it('should show internationalized site names in Unicode', () => {
+    expect(siteName(new URL('https://xn--bcher-kva.de'))).toBe('bücher');
+  });
+
+  it('should show the full address without the protocol', () => {
+    expect(displayUrl(new URL('https://www.youtube.com/watch?v=1#t=30'))).toBe(
+      'www.youtube.com/watch?v=1#t=30'
+    );
+    expect(displayUrl(new URL('http://localhost:3000/'))).toBe(
+      'localhost:3000'
+    );
+    expect(displayUrl(new URL('https://xn--bcher-kva.de/s%C3%BCden'))).toBe(
+      'bücher.de/süden'
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { IntentionScopeId } from '../src/components/intention';
+import {
+  addRedirection,
+  isIntentionLeftMessage,
+  leaveAction,
+  totalRedirections,
+  type RedirectionStats,
+} from '../src/components/leave';
+
+const news = 'news' as IntentionScopeId;
+const videos = 'videos' as IntentionScopeId;
+
+describe('Leaving the intention page', () => {
+  it('should return to the previous page when there is one', () => {
+    expect(
+      leaveAction({ kind: 'previous-page' }, 'https://docs.example.com', false)
+    ).toEqual({ kind: 'navigate', url: 'https://docs.example.com' });
+  });
+
+  it('should close a tab opened directly on a gated URL', () => {
+    expect(leaveAction({ kind: 'previous-page' }, null, false)).toEqual({
+      kind: 'close-tab',
+    });
+    expect(leaveAction({ kind: 'previous-page' }, null, true)).toEqual({
+      kind: 'new-tab',
+    });
+  });
+
+  it('should never close the last tab of a window', () => {
+    expect(leaveAction({ kind: 'close-tab' }, null, false)).toEqual({
+      kind: 'close-tab',
+    });
+    expect(leaveAction({ kind: 'close-tab' }, 'https://a.com', true)).toEqual({
+      kind: 'new-tab',
+    });
+  });
+
+  it('should go to the productive URL, adding a missing protocol', () => {
+    expect(
+      leaveAction(
+        { kind: 'productive-url', url: ' todoist.com ' },
+        'https://a.com',
+        false
+      )
+    ).toEqual({ kind: 'navigate', url: 'https://todoist.com' });
+    expect(
+      leaveAction({ kind: 'productive-url', url: '' }, 'https://a.com', false)
+    ).toEqual({ kind: 'new-tab' });
+    expect(
+      leaveAction(
+        { kind: 'productive-url', url: 'javascript:alert(1)' },
+        null,
+        false
+      )
+    ).toEqual({ kind: 'new-tab' });
+  });
+
+  it('should count redirections per scope', () => {
+    const stats = addRedirection(
+      addRedirection({} as RedirectionStats, news),
+      news
+    );
+    expect(addRedirection(stats, videos)).toEqual({ [news]: 2, [videos]: 1 });
+    expect(totalRedirections(addRedirection(stats, videos))).toBe(3);
+  });
+
+  it('should recognize the leave message', () => {
+    expect(
+      isIntentionLeftMessage({ type: 'intention:left', intentionScopeId: news })
+    ).toBe(true);
+    expect(isIntentionLeftMessage({ type: 'intention:left' })).toBe(false);
+    expect(isIntentionLeftMessage(null)).toBe(false);
+  });
+});
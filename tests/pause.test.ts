@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  isPaused,
+  pauseChoiceLabel,
+  pauseEndsAt,
+} from '../src/components/pause';
+import type { Timestamp } from '../src/components/time';
+
+const noon = new Date(2025, 2, 14, 12, 0);
+
+describe('Pause', () => {
+  it('should end the chosen number of minutes later', () => {
+    expect(pauseEndsAt({ kind: 'minutes', minutes: 30 }, noon)).toBe(
+      new Date(2025, 2, 14, 12, 30).getTime()
+    );
+  });
+
+  it('should end at the next time the chosen time comes around', () => {
+    expect(pauseEndsAt({ kind: 'until', time: '17:30' }, noon)).toBe(
+      new Date(2025, 2, 14, 17, 30).getTime()
+    );
+    expect(pauseEndsAt({ kind: 'until', time: '09:00' }, noon)).toBe(
+      new Date(2025, 2, 15, 9, 0).getTime()
+    );
+    expect(pauseEndsAt({ kind: 'until', time: '12:00' }, noon)).toBe(
+      new Date(2025, 2, 15, 12, 0).getTime()
+    );
+  });
+
+  it('should reject times that are not valid', () => {
+    expect(pauseEndsAt({ kind: 'until', time: '' }, noon)).toBeNull();
+    expect(pauseEndsAt({ kind: 'until', time: '24:00' }, noon)).toBeNull();
+  });
+
+  it('should only be paused until the end', () => {
+    const end = new Date(2025, 2, 14, 12, 30).getTime() as Timestamp;
+    expect(isPaused(end, noon)).toBe(true);
+    expect(isPaused(end, new Date(end))).toBe(false);
+    expect(isPaused(null, noon)).toBe(false);
+  });
+
+  it('should label pause lengths', () => {
+    expect(pauseChoiceLabel(15)).toBe('15 minutes');
+    expect(pauseChoiceLabel(60)).toBe('1 hour');
+    expect(pauseChoiceLabel(120)).toBe('2 hours');
+  });
+});
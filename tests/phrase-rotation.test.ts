@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { makeRawIntention } from '../src/components/intention';
+import {
+  countCompletion,
+  intentionPhrases,
+  keptPhrase,
+  pickPhrase,
+  type RotationInput,
+} from '../src/components/phrase-rotation';
+
+const phrases = ['read the news', 'check the weather', 'look up one fact'];
+const input: RotationInput = {
+  random: 0,
+  timesCompleted: 0,
+  day: '2025-03-14',
+  intentionId: 'abc',
+};
+
+describe('Phrase rotation', () => {
+  it('should list the main phrase first and skip empty ones', () => {
+    const raw = {
+      ...makeRawIntention('example.com', 'main'),
+      additionalPhrases: ['', 'other', '  '],
+    };
+    expect(intentionPhrases(raw)).toEqual(['main', 'other']);
+    expect(intentionPhrases(makeRawIntention('example.com', 'main'))).toEqual([
+      'main',
+    ]);
+  });
+
+  it('should pick at random', () => {
+    expect(pickPhrase(phrases, 'random', { ...input, random: 0 })).toBe(
+      phrases[0]
+    );
+    expect(pickPhrase(phrases, 'random', { ...input, random: 0.99 })).toBe(
+      phrases[2]
+    );
+  });
+
+  it('should go through the phrases in order', () => {
+    const shown = [0, 1, 2, 3].map(timesCompleted =>
+      pickPhrase(phrases, 'sequential', { ...input, timesCompleted })
+    );
+    expect(shown).toEqual([...phrases, phrases[0]]);
+  });
+
+  it('should move on in order only per completion', () => {
+    const counts = countCompletion(countCompletion({}, 'abc'), 'abc');
+    expect(counts).toEqual({ abc: 2 });
+    expect(countCompletion(counts, 'def')).toEqual({ abc: 2, def: 1 });
+  });
+
+  it('should keep the phrase picked for the visit while it still exists', () => {
+    expect(keptPhrase(phrases, 'check the weather')).toBe('check the weather');
+    expect(keptPhrase(phrases, 'a removed phrase')).toBeNull();
+    expect(keptPhrase(phrases, null)).toBeNull();
+  });
+
+  it('should keep the same phrase for the whole day', () => {
+    const today = pickPhrase(phrases, 'daily', input);
+    expect(
+      pickPhrase(phrases, 'daily', { ...input, random: 0.7, timesCompleted: 5 })
+    ).toBe(today);
+    const days = ['2025-03-14', '2025-03-15', '2025-03-16', '2025-03-17'].map(
+      day => pickPhrase(phrases, 'daily', { ...input, day })
+    );
+    expect(new Set(days).size).toBeGreaterThan(1);
+  });
+
+  it('should handle intentions without phrases', () => {
+    expect(pickPhrase([], 'random', input)).toBe('');
+  });
+});
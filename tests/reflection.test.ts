@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { makeRawIntention } from '../src/components/intention';
+import {
+  addReflectionAnswer,
+  charactersMissing,
+  DEFAULT_REFLECTION_MIN_LENGTH,
+  DEFAULT_REFLECTION_QUESTION,
+  MAX_REFLECTION_ANSWERS,
+  reflectionPrompt,
+  type ReflectionAnswer,
+} from '../src/components/reflection';
+import type { Timestamp } from '../src/components/time';
+
+const answerAt = (answeredAt: number): ReflectionAnswer => ({
+  intentionId: 'news',
+  url: 'news.com',
+  question: DEFAULT_REFLECTION_QUESTION,
+  answer: 'Read the one article I was sent',
+  answeredAt: answeredAt as Timestamp,
+});
+
+describe('Reflection prompts', () => {
+  it('should fall back to the default question and length', () => {
+    const raw = makeRawIntention('news.com', 'I am here on purpose');
+    expect(reflectionPrompt(raw)).toEqual({
+      question: DEFAULT_REFLECTION_QUESTION,
+      minLength: DEFAULT_REFLECTION_MIN_LENGTH,
+    });
+    expect(
+      reflectionPrompt({
+        ...raw,
+        reflectionQuestion: '  Why now?  ',
+        reflectionMinLength: 5,
+      })
+    ).toEqual({ question: 'Why now?', minLength: 5 });
+    expect(reflectionPrompt({ ...raw, reflectionQuestion: ' ' }).question).toBe(
+      DEFAULT_REFLECTION_QUESTION
+    );
+  });
+
+  it('should not count surrounding spaces towards the length', () => {
+    expect(charactersMissing('   abc   ', 5)).toBe(2);
+    expect(charactersMissing('abcde', 5)).toBe(0);
+    expect(charactersMissing('abcdefg', 5)).toBe(0);
+  });
+
+  it('should keep only the newest answers', () => {
+    const full = Array.from({ length: MAX_REFLECTION_ANSWERS }, (_, i) =>
+      answerAt(i)
+    );
+    const answers = addReflectionAnswer(full, answerAt(MAX_REFLECTION_ANSWERS));
+    expect(answers).toHaveLength(MAX_REFLECTION_ANSWERS);
+    expect(answers[0].answeredAt).toBe(1);
+    expect(answers[answers.length - 1].answeredAt).toBe(MAX_REFLECTION_ANSWERS);
+  });
+});
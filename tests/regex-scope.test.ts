@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createIntentionIndex,
+  lookupIntention,
+  parseScope,
+} from '../src/components/intention';
+import {
+  isRegexScope,
+  parseRegexScope,
+  regexSafetyError,
+} from '../src/components/regex-scope';
+import { createIntention } from './create-intention';
+
+describe('Regex scopes', () => {
+  describe('parseRegexScope', () => {
+    it('should only treat slash-delimited input as a regex', () => {
+      expect(isRegexScope('/^https:\\/\\/amazon\\./')).toBe(true);
+      expect(isRegexScope('amazon.com/gp/')).toBe(false);
+      expect(isRegexScope('/')).toBe(false);
+    });
+
+    it('should compile a case-insensitive RegExp', () => {
+      const result = parseRegexScope('/^https://AMAZON\\.com/');
+      expect(result.kind).toBe('ok');
+      if (result.kind !== 'ok') return;
+      expect(result.pattern.test('https://amazon.com/gp/video')).toBe(true);
+    });
+
+    it('should report syntax errors', () => {
+      const result = parseRegexScope('/amazon(/');
+      expect(result.kind).toBe('error');
+      if (result.kind !== 'error') return;
+      expect(result.message).toMatch(/Invalid regular expression/);
+    });
+  });
+
+  describe('regexSafetyError', () => {
+    it('should reject nested repetition', () => {
+      expect(regexSafetyError('(a+)+$')).toMatch(/Nested repetition/);
+      expect(regexSafetyError('^(\\w*\\s?)*$')).toMatch(/Nested repetition/);
+      expect(regexSafetyError('((ab)*c)+')).toMatch(/Nested repetition/);
+      expect(regexSafetyError('(x{2,})*')).toMatch(/Nested repetition/);
+      expect(regexSafetyError('(a?a?)+$')).toMatch(/Nested repetition/);
+      expect(regexSafetyError('(?:a?){25}a{25}')).toMatch(/Nested repetition/);
+      expect(regexSafetyError('(a{0,1}b)*')).toMatch(/Nested repetition/);
+      expect(regexSafetyError('((ab)?c)+')).toMatch(/Nested repetition/);
+    });
+
+    it('should reject repeated alternatives that overlap', () => {
+      expect(regexSafetyError('(a|a)*b')).toMatch(/alternatives that overlap/);
+      expect(regexSafetyError('(a|aa)+$')).toMatch(/alternatives that overlap/);
+      expect(regexSafetyError('(?:x|\\w)+')).toMatch(
+        /alternatives that overlap/
+      );
+      expect(regexSafetyError('(|b)*')).toMatch(/alternatives that overlap/);
+      expect(regexSafetyError('(A|a){2,}')).toMatch(
+        /alternatives that overlap/
+      );
+    });
+
+    it('should accept repeated alternatives with distinct first characters', () => {
+      expect(regexSafetyError('(foo|bar)+')).toBeNull();
+      expect(regexSafetyError('(?:\\.com|/x)*$')).toBeNull();
+    });
+
+    it('should reject backreferences and very long expressions', () => {
+      expect(regexSafetyError('(a)\\1')).toMatch(/Backreferences/);
+      expect(regexSafetyError('a'.repeat(301))).toMatch(/under 300/);
+    });
+
+    it('should accept common scope expressions', () => {
+      expect(
+        regexSafetyError('^https://(www\\.)?amazon\\.[a-z.]+/gp/(video|browse)')
+      ).toBeNull();
+      expect(regexSafetyError('(?:abc)+/[(+*)]+')).toBeNull();
+      expect(regexSafetyError('(ab)?c*')).toBeNull();
+    });
+  });
+
+  describe('matching intentions', () => {
+    it('should match the full target URL', () => {
+      const amazon = createIntention(
+        '/^https://(www\\.)?amazon\\.[a-z.]+/gp/(video|browse)/',
+        'amazon',
+        {}
+      );
+      const index = createIntentionIndex([amazon]);
+
+      expect(index.regexScopes).toHaveLength(1);
+      expect(index.byHostMode.public.children.size).toBe(0);
+      expect(
+        lookupIntention('https://www.amazon.co.uk/gp/video/detail', index)
+      ).toBe(amazon);
+      expect(lookupIntention('https://amazon.de/gp/cart', index)).toBeNull();
+    });
+
+    it('should prefer URL scopes over regex scopes', () => {
+      const regex = createIntention('/reddit/', 'regex', {});
+      const reddit = createIntention('reddit.com', 'reddit', {});
+      const index = createIntentionIndex([regex, reddit]);
+
+      expect(lookupIntention('https://reddit.com/r/a', index)).toBe(reddit);
+      expect(lookupIntention('https://old.reddit.com/r/a', index)).toBe(regex);
+    });
+
+    it('should accept regex exceptions', () => {
+      const youtube = createIntention('youtube.com', 'youtube', {
+        exceptions: ['/[?&]list=/'],
+      });
+      const index = createIntentionIndex([youtube]);
+
+      expect(lookupIntention('https://youtube.com/watch?v=1', index)).toBe(
+        youtube
+      );
+      expect(
+        lookupIntention('https://youtube.com/watch?v=1&list=abc', index)
+      ).toBeNull();
+    });
+
+    it('should surface unsafe expressions as scope errors', () => {
+      const result = parseScope('/(a+)+/', 'public');
+      expect(result.kind).toBe('error');
+    });
+  });
+});
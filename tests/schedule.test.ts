@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createIntentionIndex,
+  lookupActiveIntention,
+  parseIntention,
+  type Intention,
+  type RawIntention,
+} from '../src/components/intention';
+import {
+  describeSchedule,
+  isScheduleActive,
+  parseSchedule,
+  type IntentionSchedule,
+} from '../src/components/schedule';
+import { generateUUID } from '../src/components/uuid';
+
+const workHours: IntentionSchedule = {
+  mode: 'during',
+  days: [1, 2, 3, 4, 5],
+  ranges: [{ start: '09:00', end: '17:00' }],
+  timeZone: 'UTC',
+};
+
+// 2025-03-14 is a Friday
+const friday = (time: string) => new Date(`2025-03-14T${time}:00Z`);
+const saturday = (time: string) => new Date(`2025-03-15T${time}:00Z`);
+
+function createIntention(
+  url: string,
+  schedule: IntentionSchedule | undefined
+): Intention {
+  const raw: RawIntention = { id: generateUUID(), url, phrase: url, schedule };
+  const intention = parseIntention(raw);
+  if (!intention) throw new Error(`Invalid URL: ${url}`);
+  return intention;
+}
+
+describe('Schedules', () => {
+  describe('active windows', () => {
+    it('should always apply without a schedule', () => {
+      expect(isScheduleActive(null, friday('03:00'))).toBe(true);
+    });
+
+    it('should apply during the window only', () => {
+      expect(isScheduleActive(workHours, friday('09:00'))).toBe(true);
+      expect(isScheduleActive(workHours, friday('16:59'))).toBe(true);
+      expect(isScheduleActive(workHours, friday('17:00'))).toBe(false);
+      expect(isScheduleActive(workHours, saturday('12:00'))).toBe(false);
+    });
+
+    it('should apply outside the window only', () => {
+      const afterWork = { ...workHours, mode: 'outside' } as const;
+      expect(isScheduleActive(afterWork, friday('12:00'))).toBe(false);
+      expect(isScheduleActive(afterWork, friday('18:00'))).toBe(true);
+      expect(isScheduleActive(afterWork, saturday('12:00'))).toBe(true);
+    });
+
+    it('should count ranges past midnight to the day they start on', () => {
+      const lateNight: IntentionSchedule = {
+        ...workHours,
+        days: [5],
+        ranges: [{ start: '22:00', end: '02:00' }],
+      };
+      expect(isScheduleActive(lateNight, friday('23:00'))).toBe(true);
+      expect(isScheduleActive(lateNight, saturday('01:30'))).toBe(true);
+      expect(isScheduleActive(lateNight, saturday('23:00'))).toBe(false);
+    });
+
+    it('should cover whole days without ranges', () => {
+      const weekend: IntentionSchedule = {
+        ...workHours,
+        days: [6, 0],
+        ranges: [],
+      };
+      expect(isScheduleActive(weekend, saturday('00:00'))).toBe(true);
+      expect(isScheduleActive(weekend, friday('23:59'))).toBe(false);
+    });
+
+    it('should use the schedule time zone', () => {
+      const tokyo = { ...workHours, timeZone: 'Asia/Tokyo' };
+      // 01:00 UTC is 10:00 in Tokyo
+      expect(isScheduleActive(tokyo, friday('01:00'))).toBe(true);
+      expect(isScheduleActive(tokyo, friday('12:00'))).toBe(false);
+    });
+  });
+
+  describe('parsing', () => {
+    it('should drop invalid parts of stored schedules', () => {
+      expect(
+        parseSchedule({
+          mode: 'during',
+          days: [5, 1, 9 as never],
+          ranges: [
+            { start: '9:00', end: '17:00' },
+            { start: '25:00', end: '17:00' },
+          ],
+          timeZone: 'Mars/Olympus',
+        })
+      ).toEqual({
+        mode: 'during',
+        days: [1, 5],
+        ranges: [{ start: '9:00', end: '17:00' }],
+        timeZone: null,
+      });
+      expect(parseSchedule(undefined)).toBeNull();
+      expect(
+        parseSchedule({ ...workHours, mode: 'sometimes' as never })
+      ).toBeNull();
+    });
+
+    it('should describe schedules', () => {
+      expect(describeSchedule(workHours)).toBe(
+        'during Mon–Fri 09:00–17:00 (UTC)'
+      );
+      expect(
+        describeSchedule({
+          mode: 'outside',
+          days: [6, 0],
+          ranges: [],
+          timeZone: null,
+        })
+      ).toBe('outside Sat, Sun all day');
+    });
+  });
+
+  describe('lookup', () => {
+    it('should skip intentions outside their schedule', () => {
+      const videos = createIntention('youtube.com', workHours);
+      const index = createIntentionIndex([videos]);
+      expect(
+        lookupActiveIntention('https://youtube.com/', index, friday('10:00'))
+      ).toBe(videos);
+      expect(
+        lookupActiveIntention('https://youtube.com/', index, friday('20:00'))
+      ).toBeNull();
+    });
+
+    it('should fall back to a broader intention', () => {
+      const music = createIntention('youtube.com/music', workHours);
+      const videos = createIntention('youtube.com', undefined);
+      const index = createIntentionIndex([music, videos]);
+      expect(
+        lookupActiveIntention(
+          'https://youtube.com/music/x',
+          index,
+          friday('10:00')
+        )
+      ).toBe(music);
+      expect(
+        lookupActiveIntention(
+          'https://youtube.com/music/x',
+          index,
+          friday('20:00')
+        )
+      ).toBe(videos);
+    });
+  });
+});
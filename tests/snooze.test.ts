@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { IntentionScopeId } from '../src/components/intention';
+import {
+  activeSnoozes,
+  addSnooze,
+  isSnoozeConfirmed,
+  isSnoozed,
+  removeSnooze,
+  snoozeEndsAt,
+  SNOOZE_CONFIRMATION,
+  type Snoozes,
+} from '../src/components/snooze';
+import type { Timestamp } from '../src/components/time';
+
+const news = 'news' as IntentionScopeId;
+const videos = 'videos' as IntentionScopeId;
+const noon = new Date(2025, 2, 14, 12, 0);
+const at = (hours: number) =>
+  new Date(2025, 2, 14, hours, 0).getTime() as Timestamp;
+
+describe('Snoozes', () => {
+  it('should last until the next budget reset', () => {
+    expect(snoozeEndsAt(noon, 4)).toBe(new Date(2025, 2, 15, 4, 0).getTime());
+  });
+
+  it('should only apply to the snoozed scope until it ends', () => {
+    const snoozes = addSnooze({} as Snoozes, news, at(14), noon);
+    expect(isSnoozed(snoozes, news, noon)).toBe(true);
+    expect(isSnoozed(snoozes, videos, noon)).toBe(false);
+    expect(isSnoozed(snoozes, news, new Date(at(14)))).toBe(false);
+  });
+
+  it('should drop ended snoozes when adding and revoke single ones', () => {
+    const snoozes = addSnooze(
+      { [news]: at(11), [videos]: at(18) } as Snoozes,
+      news,
+      at(20),
+      noon
+    );
+    expect(snoozes).toEqual({ [news]: at(20), [videos]: at(18) });
+    expect(removeSnooze(snoozes, news)).toEqual({ [videos]: at(18) });
+    expect(activeSnoozes(snoozes, new Date(at(19)))).toEqual({
+      [news]: at(20),
+    });
+  });
+
+  it('should require the full confirmation sentence', () => {
+    expect(isSnoozeConfirmed(` ${SNOOZE_CONFIRMATION} `)).toBe(true);
+    expect(isSnoozeConfirmed(SNOOZE_CONFIRMATION.toLowerCase())).toBe(false);
+    expect(isSnoozeConfirmed(SNOOZE_CONFIRMATION.slice(0, -1))).toBe(false);
+  });
+});
@@ -4,10 +4,16 @@ import {
   createIntentionIndex,
   lookupIntention,
   matchesIntentionScopeIgnoringDomain,
+  parseIntention,
   parseUrlToScope,
   type Intention,
+  type LanguageMatchMode,
+  type PathMatchMode,
 } from '../src/components/intention';
-import { normalizeUrl } from '../src/components/normalized-url';
+import {
+  normalizeUrl,
+  normalizeUrlWithQueryAndHash,
+} from '../src/components/normalized-url';
 import { generateUUID } from '../src/components/uuid';
 
 describe('Intender URL Matching - Test Specification', () => {
@@ -31,23 +37,33 @@ describe('Intender URL Matching - Test Specification', () => {
 
   // Helper function to create ParsedIntention with IntentionScope
   function createIntention(scope: string, phrase: string): Intention {
-    const parsedScope = parseUrlToScope(scope);
+    const parsedScope = parseUrlToScope(scope, 'public');
     if (!parsedScope) {
       throw new Error(`Invalid URL: ${scope}`);
     }
-    return { id: generateUUID(), scope: parsedScope, phrase };
+    return {
+      id: generateUUID(),
+      scope: parsedScope,
+      additionalScopes: [],
+      exceptions: [],
+      hostMode: 'public',
+      phrase,
+      schedule: null,
+    };
   }
 
   // Test scope creation for the gmail.com.com issue
   describe('Scope Creation', () => {
     it('should correctly separate domain and publicSuffix for gmail.com', () => {
-      const scope = parseUrlToScope('gmail.com');
+      const scope = parseUrlToScope('gmail.com', 'public');
       expect(scope).not.toBeNull();
       // domain should be the base domain without suffix
-      expect(scope!.domain).toBe('gmail');
-      expect(scope!.publicSuffix).toBe('com');
-      expect(scope!.subdomain).toBeNull();
-      expect(scope!.path).toBe('');
+      expect(scope).toMatchObject({
+        domain: 'gmail',
+        publicSuffix: 'com',
+        subdomain: null,
+        path: '',
+      });
     });
   });
 
@@ -393,6 +409,539 @@ describe('Intender URL Matching - Test Specification', () => {
     });
   });
 
+  describe('10. Exceptions', () => {
+    it('should skip a scope when the target matches one of its exceptions', () => {
+      const youtube = parseIntention({
+        id: generateUUID(),
+        url: '*.youtube.com',
+        phrase: 'youtube',
+        exceptions: ['youtube.com/feed/library', 'music.youtube.com'],
+      });
+      if (!youtube) throw new Error('Failed to parse intention');
+
+      const index = createIntentionIndex([youtube]);
+
+      expect(lookupIntention('https://www.youtube.com/watch', index)).toBe(
+        youtube
+      );
+      expect(
+        lookupIntention('https://www.youtube.com/feed/library/x', index)
+      ).toBeNull();
+      expect(
+        lookupIntention('https://music.youtube.com/playlist', index)
+      ).toBeNull();
+    });
+
+    it('should fall through to a broader scope when an exception applies', () => {
+      const broad = createIntention('https://reddit.com', 'broad');
+      const narrow = parseIntention({
+        id: generateUUID(),
+        url: 'reddit.com/r',
+        phrase: 'narrow',
+        exceptions: ['reddit.com/r/cooking'],
+      });
+      if (!narrow) throw new Error('Failed to parse intention');
+
+      const index = createIntentionIndex([broad, narrow]);
+
+      expect(lookupIntention('https://reddit.com/r/news', index)?.phrase).toBe(
+        'narrow'
+      );
+      expect(
+        lookupIntention('https://reddit.com/r/cooking', index)?.phrase
+      ).toBe('broad');
+    });
+
+    it('should ignore exceptions that cannot be parsed', () => {
+      const intention = parseIntention({
+        id: generateUUID(),
+        url: 'facebook.com',
+        phrase: 'facebook',
+        exceptions: ['', 'not a url'],
+      });
+      expect(intention?.exceptions).toEqual([]);
+    });
+  });
+
+  describe('11. Multiple URLs per intention', () => {
+    it('should index every URL of an intention under the same intention', () => {
+      const social = parseIntention({
+        id: generateUUID(),
+        url: 'twitter.com',
+        phrase: 'social',
+        additionalUrls: ['x.com', 'threads.net'],
+      });
+      if (!social) throw new Error('Failed to parse intention');
+
+      const index = createIntentionIndex([social]);
+
+      expect(lookupIntention('https://twitter.com/home', index)).toBe(social);
+      expect(lookupIntention('https://x.com/home', index)).toBe(social);
+      expect(lookupIntention('https://www.threads.net', index)).toBe(social);
+      expect(lookupIntention('https://facebook.com', index)).toBeNull();
+    });
+
+    it('should keep specificity ordering across intentions', () => {
+      const social = parseIntention({
+        id: generateUUID(),
+        url: 'twitter.com',
+        phrase: 'social',
+        additionalUrls: ['reddit.com'],
+      });
+      const cooking = createIntention('reddit.com/r/cooking', 'cooking');
+      if (!social) throw new Error('Failed to parse intention');
+
+      const index = createIntentionIndex([social, cooking]);
+
+      expect(
+        lookupIntention('https://reddit.com/r/cooking/top', index)?.phrase
+      ).toBe('cooking');
+      expect(lookupIntention('https://reddit.com/r/news', index)?.phrase).toBe(
+        'social'
+      );
+    });
+  });
+
+  describe('12. Path Match Modes', () => {
+    function createIntentionWithMode(
+      url: string,
+      pathMatch: PathMatchMode
+    ): Intention {
+      const intention = parseIntention({
+        id: generateUUID(),
+        url,
+        phrase: pathMatch,
+        pathMatch,
+      });
+      if (!intention) throw new Error(`Invalid URL: ${url}`);
+      return intention;
+    }
+
+    it('should default to segment matching', () => {
+      const scope = parseUrlToScope('https://reddit.com/r/news', 'public');
+      expect(scope).toMatchObject({ pathMatch: 'segment' });
+    });
+
+    it('segment: should match the path and below, on / boundaries', () => {
+      const { scope } = createIntentionWithMode('reddit.com/r/news', 'segment');
+
+      expect(
+        matchesIntentionScopeIgnoringDomain('https://reddit.com/r/news', scope)
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://reddit.com/r/news/comments/1',
+          scope
+        )
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://reddit.com/r/newsokc',
+          scope
+        )
+      ).toBe(false);
+    });
+
+    it('prefix: should match any path starting with the intention path', () => {
+      const { scope } = createIntentionWithMode('reddit.com/r/news', 'prefix');
+
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://reddit.com/r/news/comments/1',
+          scope
+        )
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://reddit.com/r/newsokc',
+          scope
+        )
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain('https://reddit.com/r/new', scope)
+      ).toBe(false);
+    });
+
+    it('exact: should only match the exact path', () => {
+      const { scope } = createIntentionWithMode('reddit.com/r/news', 'exact');
+
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://www.reddit.com/r/news/',
+          scope
+        )
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://reddit.com/r/news/comments/1',
+          scope
+        )
+      ).toBe(false);
+
+      const { scope: rootScope } = createIntentionWithMode(
+        'youtube.com',
+        'exact'
+      );
+      expect(
+        matchesIntentionScopeIgnoringDomain('https://youtube.com/', rootScope)
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://youtube.com/watch',
+          rootScope
+        )
+      ).toBe(false);
+    });
+
+    it('should apply the mode to wildcard paths', () => {
+      const exact = createIntentionWithMode('reddit.com/r/*', 'exact').scope;
+      const segment = createIntentionWithMode(
+        'reddit.com/r/*',
+        'segment'
+      ).scope;
+
+      expect(
+        matchesIntentionScopeIgnoringDomain('https://reddit.com/r/news', exact)
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://reddit.com/r/news/top',
+          exact
+        )
+      ).toBe(false);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://reddit.com/r/news/top',
+          segment
+        )
+      ).toBe(true);
+    });
+
+    it('should apply the mode to every URL of the intention', () => {
+      const intention = parseIntention({
+        id: generateUUID(),
+        url: 'twitter.com/home',
+        phrase: 'exact',
+        additionalUrls: ['x.com/home'],
+        pathMatch: 'exact',
+      });
+      if (!intention) throw new Error('Failed to parse intention');
+
+      const index = createIntentionIndex([intention]);
+
+      expect(lookupIntention('https://x.com/home', index)).toBe(intention);
+      expect(lookupIntention('https://x.com/home/more', index)).toBeNull();
+    });
+  });
+
+  describe('13. Query and Hash Scopes', () => {
+    it('should ignore query and hash on intentions that do not ask for them', () => {
+      const scope = parseUrlToScope('youtube.com/results', 'public')!;
+      expect(scope).toMatchObject({ query: [], hashRoute: null });
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://youtube.com/results?search_query=cats#top',
+          scope
+        )
+      ).toBe(true);
+    });
+
+    it('should require a query key when given without a value', () => {
+      const scope = parseUrlToScope(
+        'youtube.com/results?search_query',
+        'public'
+      )!;
+      expect(scope).toMatchObject({
+        query: [{ key: 'search_query', value: null }],
+      });
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://www.youtube.com/results?search_query=cats&sp=1',
+          scope
+        )
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://www.youtube.com/results?sp=1',
+          scope
+        )
+      ).toBe(false);
+    });
+
+    it('should require a query value when given', () => {
+      const scope = parseUrlToScope('example.com/search?tab=news', 'public')!;
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://example.com/search?q=x&tab=news',
+          scope
+        )
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://example.com/search?tab=images',
+          scope
+        )
+      ).toBe(false);
+    });
+
+    it('should keep tracking parameters an intention asks for', () => {
+      const scope = parseUrlToScope('example.com/a?utm_source=x', 'public')!;
+      expect(scope).toMatchObject({
+        query: [{ key: 'utm_source', value: 'x' }],
+      });
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://example.com/a?utm_source=x',
+          scope
+        )
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain('https://example.com/a', scope)
+      ).toBe(false);
+    });
+
+    it('should match hash routes on segment boundaries', () => {
+      const scope = parseUrlToScope('app.example.com/#/inbox', 'public')!;
+      expect(scope).toMatchObject({ hashRoute: '/inbox' });
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://app.example.com/#/inbox',
+          scope
+        )
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://app.example.com/#/inbox/123',
+          scope
+        )
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://app.example.com/#/inboxes',
+          scope
+        )
+      ).toBe(false);
+      expect(
+        matchesIntentionScopeIgnoringDomain('https://app.example.com/', scope)
+      ).toBe(false);
+    });
+
+    it('should prefer query-aware scopes over the plain path', () => {
+      const search = createIntention(
+        'youtube.com/results?search_query',
+        'search'
+      );
+      const results = createIntention('youtube.com/results', 'results');
+      const index = createIntentionIndex([results, search]);
+
+      expect(
+        lookupIntention('https://youtube.com/results?search_query=a', index)
+      ).toBe(search);
+      expect(lookupIntention('https://youtube.com/results', index)).toBe(
+        results
+      );
+    });
+
+    it('should support query and hash on wildcard patterns', () => {
+      const scope = parseUrlToScope('*.example.com/app#/settings', 'public')!;
+      expect(scope).toMatchObject({ hashRoute: '/settings' });
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://eu.example.com/app#/settings/profile',
+          scope
+        )
+      ).toBe(true);
+    });
+
+    it('should keep matching every query for intentions saved before it could be required', () => {
+      const intention = parseIntention({
+        id: generateUUID(),
+        url: 'youtube.com/watch?v=abc',
+        phrase: 'one video',
+        additionalUrls: ['example.com/a?utm_source=x#top'],
+      });
+      if (!intention) throw new Error('Failed to parse intention');
+      const index = createIntentionIndex([intention]);
+
+      expect(intention.scope).toMatchObject({
+        originalUrl: 'youtube.com/watch?v=abc',
+        query: [],
+        hashRoute: null,
+      });
+      expect(
+        lookupIntention('https://www.youtube.com/watch?v=other', index)
+      ).toBe(intention);
+      expect(lookupIntention('https://youtube.com/watch', index)).toBe(
+        intention
+      );
+      expect(lookupIntention('https://example.com/a', index)).toBe(intention);
+    });
+
+    it('should require query and hash when the intention opts in', () => {
+      const intention = parseIntention({
+        id: generateUUID(),
+        url: 'youtube.com/watch?v=abc',
+        phrase: 'one video',
+        additionalUrls: ['example.com/a?utm_source=x'],
+        queryMatch: 'require',
+      });
+      if (!intention) throw new Error('Failed to parse intention');
+      const index = createIntentionIndex([intention]);
+
+      expect(
+        lookupIntention('https://www.youtube.com/watch?v=abc&t=10', index)
+      ).toBe(intention);
+      expect(
+        lookupIntention('https://www.youtube.com/watch?v=other', index)
+      ).toBeNull();
+      expect(lookupIntention('https://example.com/a?utm_source=x', index)).toBe(
+        intention
+      );
+      expect(lookupIntention('https://example.com/a', index)).toBeNull();
+    });
+  });
+
+  describe('14. Local and Private Hosts', () => {
+    const parseLocal = (url: string, phrase: string): Intention => {
+      const intention = parseIntention({
+        id: generateUUID(),
+        url,
+        phrase,
+        hostMode: 'local-and-private',
+      });
+      if (!intention) throw new Error(`Invalid URL: ${url}`);
+      return intention;
+    };
+
+    it('should reject local addresses unless opted in', () => {
+      expect(parseUrlToScope('localhost:3000', 'public')).toBeNull();
+      expect(parseUrlToScope('192.168.1.10', 'public')).toBeNull();
+      expect(
+        parseUrlToScope('localhost:3000', 'local-and-private')
+      ).not.toBeNull();
+      expect(
+        parseUrlToScope('chrome://extensions', 'local-and-private')
+      ).toBeNull();
+    });
+
+    it('should match localhost on the given port only', () => {
+      const dashboard = parseLocal('localhost:3000', 'dashboard');
+      const index = createIntentionIndex([dashboard]);
+
+      expect(lookupIntention('http://localhost:3000/admin', index)).toBe(
+        dashboard
+      );
+      expect(lookupIntention('http://localhost:8080/', index)).toBeNull();
+    });
+
+    it('should match IP addresses and single-label hosts', () => {
+      const router = parseLocal('192.168.1.10', 'router');
+      const wiki = parseLocal('wiki/team', 'wiki');
+      const index = createIntentionIndex([router, wiki]);
+
+      expect(lookupIntention('http://192.168.1.10/status', index)).toBe(router);
+      expect(lookupIntention('http://192.168.1.11/', index)).toBeNull();
+      expect(lookupIntention('http://wiki/team/page', index)).toBe(wiki);
+    });
+
+    it('should key sites under private suffixes on their own', () => {
+      const pages = parseLocal('me.github.io', 'pages');
+      const index = createIntentionIndex([pages]);
+
+      expect(index.byHostMode['local-and-private'].children.has('me')).toBe(
+        true
+      );
+      expect(lookupIntention('https://me.github.io/blog', index)).toBe(pages);
+      expect(lookupIntention('https://other.github.io/', index)).toBeNull();
+    });
+
+    it('should cover every site under a private suffix with a wildcard', () => {
+      const anyPages = parseLocal('*.github.io', 'any pages');
+      const index = createIntentionIndex([anyPages]);
+
+      expect(lookupIntention('https://other.github.io/', index)).toBe(anyPages);
+    });
+
+    it('should combine public and private intentions in one lookup', () => {
+      const github = createIntention('github.com', 'github');
+      const pages = parseLocal('me.github.io', 'pages');
+      const index = createIntentionIndex([github, pages]);
+
+      expect(lookupIntention('https://github.com/x', index)).toBe(github);
+      expect(lookupIntention('https://me.github.io', index)).toBe(pages);
+    });
+  });
+
+  describe('15. Language Match Modes', () => {
+    const parseWithLanguage = (
+      url: string,
+      languageMatch: LanguageMatchMode
+    ): Intention => {
+      const intention = parseIntention({
+        id: generateUUID(),
+        url,
+        phrase: url,
+        languageMatch,
+      });
+      if (!intention) throw new Error(`Invalid URL: ${url}`);
+      return intention;
+    };
+    const matches = (intention: Intention, targetUrl: string) =>
+      lookupIntention(targetUrl, createIntentionIndex([intention])) ===
+      intention;
+
+    it('should accept every language variant in loose mode', () => {
+      const facebook = parseWithLanguage('facebook.com', 'loose');
+      expect(matches(facebook, 'https://facebook.de/')).toBe(true);
+      expect(matches(facebook, 'https://de.facebook.com/')).toBe(true);
+
+      const example = parseWithLanguage('example.com/docs', 'loose');
+      expect(matches(example, 'https://example.com/no/docs')).toBe(true);
+    });
+
+    it('should only strip language-region path segments in strict mode', () => {
+      const example = parseWithLanguage('example.com/docs', 'strict');
+      expect(matches(example, 'https://example.com/no/docs')).toBe(false);
+      expect(matches(example, 'https://example.com/en-us/docs')).toBe(true);
+      expect(matches(example, 'https://example.de/docs')).toBe(true);
+
+      const norway = parseWithLanguage('example.com/no/docs', 'strict');
+      expect(matches(norway, 'https://example.com/no/docs/a')).toBe(true);
+      expect(matches(norway, 'https://example.com/docs')).toBe(false);
+    });
+
+    it('should match suffix, subdomain and path as written when off', () => {
+      const facebook = parseWithLanguage('facebook.com', 'off');
+      expect(matches(facebook, 'https://www.facebook.com/')).toBe(true);
+      expect(matches(facebook, 'https://facebook.de/')).toBe(false);
+      expect(matches(facebook, 'https://de.facebook.com/')).toBe(false);
+
+      const german = parseWithLanguage('de.wikipedia.org', 'off');
+      expect(matches(german, 'https://de.wikipedia.org/wiki')).toBe(true);
+      expect(matches(german, 'https://en.wikipedia.org/wiki')).toBe(false);
+
+      const docs = parseWithLanguage('example.com/it/docs', 'off');
+      expect(matches(docs, 'https://example.com/it/docs')).toBe(true);
+      expect(matches(docs, 'https://example.com/docs')).toBe(false);
+      expect(matches(docs, 'https://example.com/en/it/docs')).toBe(false);
+    });
+
+    it('should apply the language mode to exceptions', () => {
+      const intention = parseIntention({
+        id: generateUUID(),
+        url: 'example.com',
+        phrase: 'example',
+        exceptions: ['example.com/docs'],
+        languageMatch: 'off',
+      })!;
+      const index = createIntentionIndex([intention]);
+      expect(lookupIntention('https://example.com/docs', index)).toBeNull();
+      expect(lookupIntention('https://example.com/no/docs', index)).toBe(
+        intention
+      );
+    });
+  });
+
   // Additional unit tests for edge cases
   describe('Edge Cases', () => {
     it('should handle valid URLs gracefully', () => {
@@ -407,6 +956,13 @@ describe('Intender URL Matching - Test Specification', () => {
       expect(normalized).toBe('example.com/path%20with%20spaces');
     });
 
+    it('should keep sorted query and hash when asked to', () => {
+      const url = new URL('https://www.example.com/path?b=2&a=1#/route');
+      expect(normalizeUrlWithQueryAndHash(url)).toBe(
+        'example.com/path?a=1&b=2#/route'
+      );
+    });
+
     it('should handle IPv6 addresses', () => {
       // Skip this test as IPv6 addresses are not supported by the current domain validation
       expect(true).toBe(true);
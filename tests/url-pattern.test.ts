@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createIntentionIndex,
+  lookupIntention,
+  matchesIntentionScopeIgnoringDomain,
+  parseScope,
+  parseUrlToScope,
+} from '../src/components/intention';
+import {
+  matchesPathPattern,
+  matchesSubdomainPattern,
+  parseUrlPattern,
+} from '../src/components/url-pattern';
+import { createIntention } from './create-intention';
+
+describe('URL patterns', () => {
+  describe('parseUrlPattern', () => {
+    it('should split a subdomain wildcard from the literal site', () => {
+      const result = parseUrlPattern(
+        'https://*.reddit.com/r/*/comments',
+        'public'
+      );
+      expect(result).toEqual({
+        kind: 'ok',
+        pattern: {
+          domain: 'reddit',
+          publicSuffix: 'com',
+          subdomain: '*',
+          port: null,
+          path: '/r/*/comments',
+          hostMode: 'public',
+          literalLength: expect.any(Number),
+        },
+      });
+    });
+
+    it('should accept a wildcard public suffix', () => {
+      const result = parseUrlPattern('news.*', 'public');
+      expect(result.kind).toBe('ok');
+      if (result.kind !== 'ok') return;
+      expect(result.pattern.domain).toBe('news');
+      expect(result.pattern.publicSuffix).toBe('*');
+      expect(result.pattern.subdomain).toBeNull();
+    });
+
+    it('should reject patterns that replace the site name', () => {
+      expect(parseUrlPattern('*.com', 'public').kind).toBe('error');
+      expect(parseUrlPattern('*', 'public').kind).toBe('error');
+      expect(parseUrlPattern('red*.com', 'public').kind).toBe('error');
+    });
+
+    it('should key private suffix sites on their own name when opted in', () => {
+      const result = parseUrlPattern(
+        '*.me.github.io:4000',
+        'local-and-private'
+      );
+      expect(result).toEqual({
+        kind: 'ok',
+        pattern: expect.objectContaining({
+          domain: 'me',
+          publicSuffix: 'github.io',
+          subdomain: '*',
+          port: '4000',
+          hostMode: 'local-and-private',
+        }),
+      });
+    });
+
+    it('should reject ** outside whole path segments', () => {
+      expect(parseUrlPattern('**.reddit.com', 'public').kind).toBe('error');
+      expect(parseUrlPattern('reddit.com/r/a**', 'public').kind).toBe('error');
+      expect(parseUrlPattern('reddit.com/**/top', 'public').kind).toBe('ok');
+    });
+  });
+
+  describe('segment matching', () => {
+    it('should let a leading * label match any number of subdomain labels', () => {
+      expect(matchesSubdomainPattern(null, '*')).toBe(true);
+      expect(matchesSubdomainPattern('old', '*')).toBe(true);
+      expect(matchesSubdomainPattern('a.b', '*')).toBe(true);
+      expect(matchesSubdomainPattern('old', '*.eu')).toBe(false);
+      expect(matchesSubdomainPattern('old.eu', '*.eu')).toBe(true);
+    });
+
+    it('should let * match exactly one path segment and ** any number', () => {
+      expect(
+        matchesPathPattern('/r/news/comments/1', '/r/*/comments', 'segment')
+      ).toBe(true);
+      expect(
+        matchesPathPattern('/r/comments', '/r/*/comments', 'segment')
+      ).toBe(false);
+      expect(
+        matchesPathPattern('/r/a/b/comments', '/r/*/comments', 'segment')
+      ).toBe(false);
+      expect(
+        matchesPathPattern('/r/a/b/comments', '/r/**/comments', 'segment')
+      ).toBe(true);
+      expect(
+        matchesPathPattern('/r/comments', '/r/**/comments', 'segment')
+      ).toBe(true);
+    });
+  });
+
+  describe('matching intentions', () => {
+    it('should match subdomain and path wildcards', () => {
+      const scope = parseUrlToScope('*.reddit.com/r/*/comments', 'public')!;
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://old.reddit.com/r/vegan/comments/abc',
+          scope
+        )
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://reddit.com/r/vegan/comments',
+          scope
+        )
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain(
+          'https://www.reddit.com/r/vegan',
+          scope
+        )
+      ).toBe(false);
+    });
+
+    it('should keep the case of the path, like literal scopes', () => {
+      const pattern = parseUrlPattern('*.Reddit.COM/r/AskReddit', 'public');
+      expect(pattern.kind === 'ok' && pattern.pattern.path).toBe(
+        '/r/AskReddit'
+      );
+
+      const wildcard = createIntention(
+        '*.reddit.com/r/AskReddit',
+        'wildcard',
+        {}
+      );
+      const literal = createIntention('reddit.com/r/AskReddit', 'literal', {});
+      for (const intention of [wildcard, literal]) {
+        expect(
+          lookupIntention(
+            'https://www.reddit.com/r/AskReddit/comments/1',
+            createIntentionIndex([intention])
+          )?.phrase
+        ).toBe(intention.phrase);
+      }
+    });
+
+    it('should match a wildcard suffix on any suffix', () => {
+      const scope = parseUrlToScope('news.*', 'public')!;
+      expect(
+        matchesIntentionScopeIgnoringDomain('https://news.org', scope)
+      ).toBe(true);
+      expect(
+        matchesIntentionScopeIgnoringDomain('https://news.co.uk/world', scope)
+      ).toBe(true);
+    });
+
+    it('should prefer literal scopes over equally long patterns', () => {
+      const pattern = createIntention('reddit.com/r/*', 'pattern', {});
+      const literal = createIntention('reddit.com/r/a', 'literal', {});
+      const broad = createIntention('reddit.com', 'broad', {});
+
+      const index = createIntentionIndex([broad, pattern, literal]);
+
+      expect(lookupIntention('https://reddit.com/r/a/1', index)?.phrase).toBe(
+        'literal'
+      );
+      expect(lookupIntention('https://reddit.com/r/b/1', index)?.phrase).toBe(
+        'pattern'
+      );
+      expect(lookupIntention('https://reddit.com/user/x', index)?.phrase).toBe(
+        'broad'
+      );
+    });
+
+    it('should report a message for invalid patterns', () => {
+      const result = parseScope('*.com', 'public');
+      expect(result.kind).toBe('error');
+      if (result.kind !== 'error') return;
+      expect(result.message).toMatch(/site name/);
+    });
+  });
+});
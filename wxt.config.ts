@@ -36,7 +36,7 @@ export default defineConfig({
     description: packageJson.description,
     version,
     manifest_version: 3,
-    permissions: ['storage', 'webNavigation', 'tabs', 'idle'],
+    permissions: ['storage', 'webNavigation', 'tabs', 'idle', 'alarms'],
     optional_host_permissions: [],
     icons: {
       16: 'icon/intender-16.png',